@@ -3,7 +3,7 @@ const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
 
 async function main() {
-  const ctx = await esbuild.context({
+  const extensionCtx = await esbuild.context({
     entryPoints: ['src/extension.ts'],
     bundle: true,
     format: 'cjs',
@@ -17,12 +17,28 @@ async function main() {
     mainFields: ['module', 'main'],
   });
 
+  // Headless CLI - no "vscode" external, so the build fails if the sync core starts depending on the VS Code API
+  const cliCtx = await esbuild.context({
+    entryPoints: ['src/cli.ts'],
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    target: 'node18',
+    sourcemap: !production,
+    minify: production,
+    outfile: 'dist/cli.js',
+    banner: { js: '#!/usr/bin/env node' },
+    mainFields: ['module', 'main'],
+  });
+
+  const contexts = [extensionCtx, cliCtx];
+
   if (watch) {
-    await ctx.watch();
+    await Promise.all(contexts.map((ctx) => ctx.watch()));
     console.log('Watching for changes...');
   } else {
-    await ctx.rebuild();
-    await ctx.dispose();
+    await Promise.all(contexts.map((ctx) => ctx.rebuild()));
+    await Promise.all(contexts.map((ctx) => ctx.dispose()));
     console.log('Build complete');
   }
 }
@@ -0,0 +1,100 @@
+/**
+ * Public extension API
+ *
+ * Returned from activate(), so other extensions can use it:
+ *
+ *   const api = vscode.extensions.getExtension<WorkspaceManagerApi>('<publisher>.workspace-manager')?.exports;
+ *   api?.onDidForwardSync(({ folders }) => ...);
+ */
+
+import { WorkspaceConfigService } from './services/workspaceConfig';
+import { ForwardSyncService } from './services/forwardSync';
+import { ReverseSyncService } from './services/reverseSync';
+import { FileWatcherService } from './services/fileWatcher';
+import { SyncHistoryService } from './services/syncHistory';
+import type { Event } from './utils/eventEmitter';
+import type { Settings, SyncEvent } from './types';
+
+export type { Settings, SyncEvent, SyncedFolder } from './types';
+
+export interface WorkspaceManagerApi {
+  /** API version, incremented on breaking changes */
+  readonly version: 1;
+
+  /** Absolute path of the .code-workspace file */
+  readonly workspaceFile: string;
+
+  /**
+   * Compute the settings forward sync generates for a folder (without writing anything)
+   *
+   * @param folderPath - Folder path as written in the workspace file
+   * @returns The settings, or undefined for unknown folders, the root folder, or if forward sync is disabled
+   */
+  getEffectiveSettings(folderPath: string): Promise<Settings | undefined>;
+
+  /**
+   * Run forward sync (workspace file → .vscode/settings.json) for one folder or all folders
+   *
+   * @returns Number of folders whose settings file changed
+   */
+  syncForward(folderPath?: string): Promise<number>;
+
+  /**
+   * Run reverse sync (.vscode/settings.json → workspace file) for a folder
+   *
+   * @returns true if the workspace file was updated
+   */
+  syncReverse(folderPath: string): Promise<boolean>;
+
+  /** Whether auto-sync (file watchers) is currently on */
+  isAutoSyncEnabled(): boolean;
+
+  /** Fired after forward sync wrote folder settings files, listing the changed keys per folder */
+  readonly onDidForwardSync: Event<SyncEvent>;
+
+  /** Fired after reverse sync wrote a folder's changes to the workspace file */
+  readonly onDidReverseSync: Event<SyncEvent>;
+
+  /** Fired when auto-sync is turned on (true) or off (false) */
+  readonly onDidChangeAutoSync: Event<boolean>;
+}
+
+/**
+ * Create the API object backed by the extension's services
+ */
+export function createApi(services: {
+  workspaceConfig: WorkspaceConfigService;
+  forwardSync: ForwardSyncService;
+  reverseSync: ReverseSyncService;
+  fileWatcher: FileWatcherService;
+  syncHistory: SyncHistoryService;
+}): WorkspaceManagerApi {
+  const { workspaceConfig, forwardSync, reverseSync, fileWatcher, syncHistory } = services;
+
+  return {
+    version: 1,
+    workspaceFile: workspaceConfig.getWorkspacePath() ?? '',
+
+    async getEffectiveSettings(folderPath) {
+      const [plan] = await forwardSync.plan(folderPath);
+      return plan?.settings;
+    },
+
+    syncForward(folderPath) {
+      const label = folderPath ? `Forward sync (${folderPath})` : 'Forward sync';
+      return syncHistory.runOperation(label, () => forwardSync.sync(folderPath));
+    },
+
+    syncReverse(folderPath) {
+      return syncHistory.runOperation(`Reverse sync (${folderPath})`, () =>
+        reverseSync.syncFolderToWorkspace(folderPath)
+      );
+    },
+
+    isAutoSyncEnabled: () => fileWatcher.isActive(),
+
+    onDidForwardSync: forwardSync.onDidSync,
+    onDidReverseSync: reverseSync.onDidSync,
+    onDidChangeAutoSync: fileWatcher.onDidChangeWatching,
+  };
+}
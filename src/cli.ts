@@ -0,0 +1,136 @@
+/**
+ * Workspace Manager CLI
+ *
+ * Runs forward sync outside VS Code (CI, pre-commit hooks) using the same services as the extension:
+ *
+ *   workspace-manager sync <file.code-workspace>    Write the folders' .vscode/settings.json files
+ *   workspace-manager check <file.code-workspace>   Exit with 1 if any .vscode/settings.json is out of date
+ *   workspace-manager diff <file.code-workspace>    Print what sync would change (unified diff)
+ */
+
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { WorkspaceConfigService } from './services/workspaceConfig';
+import { ForwardSyncService } from './services/forwardSync';
+import { createUnifiedDiff } from './utils/lineDiff';
+import type { ForwardSyncOptions, ForwardSyncPlan, Logger } from './types';
+
+const USAGE = `Usage: workspace-manager <sync|check|diff> <file.code-workspace> [--verbose]
+
+Commands:
+  sync    Write the folders' .vscode/settings.json files
+  check   Exit with code 1 if any .vscode/settings.json is out of date
+  diff    Print what sync would change
+
+Options:
+  --verbose   Log sync details to stderr`;
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_OUT_OF_DATE = 1;
+const EXIT_ERROR = 2;
+
+type Command = 'sync' | 'check' | 'diff';
+
+/**
+ * Reverse sync never runs in the CLI, so the workspace file is the source of truth:
+ * folder-side changes to generated keys (including conflicting ones) are reported as out of date and overwritten
+ */
+const SYNC_OPTIONS: ForwardSyncOptions = { overwriteFolderChanges: true };
+
+/**
+ * Parse command line arguments
+ *
+ * @returns The command, workspace file and options, or null if the arguments are invalid
+ */
+function parseArgs(args: string[]): { command: Command; workspaceFile: string; verbose: boolean } | null {
+  const verbose = args.includes('--verbose');
+  const positional = args.filter((arg) => !arg.startsWith('--'));
+  const [command, workspaceFile] = positional;
+
+  if (positional.length !== 2 || !['sync', 'check', 'diff'].includes(command)) {
+    return null;
+  }
+  return { command: command as Command, workspaceFile: path.resolve(workspaceFile), verbose };
+}
+
+/**
+ * Check if a plan would change the folder's .vscode/settings.json
+ */
+function isOutOfDate(plan: ForwardSyncPlan): boolean {
+  return plan.existingContent !== plan.newContent;
+}
+
+/**
+ * Get a short label for a plan's settings file (relative to the current directory)
+ */
+function getLabel(plan: ForwardSyncPlan): string {
+  return path.relative(process.cwd(), plan.settingsFile) || plan.settingsFile;
+}
+
+async function main(args: string[]): Promise<number> {
+  const options = parseArgs(args);
+  if (!options) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  try {
+    await fs.access(options.workspaceFile);
+  } catch {
+    console.error(`Workspace file not found: ${options.workspaceFile}`);
+    return EXIT_ERROR;
+  }
+
+  const logger: Logger = { appendLine: (value) => options.verbose && console.error(value) };
+  const workspaceConfig = new WorkspaceConfigService(options.workspaceFile, logger);
+  // Setting schemas aren't available outside VS Code: settings VS Code ignores in folders are left out
+  // using the scopes the extension recorded in each folder's sync manifest
+  const forwardSync = new ForwardSyncService(workspaceConfig, logger);
+
+  switch (options.command) {
+    case 'sync': {
+      const count = await forwardSync.sync(undefined, SYNC_OPTIONS);
+      console.log(`Synced settings to ${count} folder(s)`);
+      return EXIT_OK;
+    }
+
+    case 'check': {
+      const plans = await forwardSync.plan(undefined, SYNC_OPTIONS);
+      let failed = false;
+
+      for (const plan of plans) {
+        if (isOutOfDate(plan)) {
+          console.log(`Out of date: ${getLabel(plan)}`);
+          failed = true;
+        }
+      }
+
+      if (failed) {
+        console.log(`Run "workspace-manager sync ${path.relative(process.cwd(), options.workspaceFile)}" to update.`);
+        return EXIT_OUT_OF_DATE;
+      }
+      console.log(`All ${plans.length} folder settings file(s) are up to date`);
+      return EXIT_OK;
+    }
+
+    case 'diff': {
+      const plans = await forwardSync.plan(undefined, SYNC_OPTIONS);
+      for (const plan of plans.filter(isOutOfDate)) {
+        const label = getLabel(plan);
+        process.stdout.write(createUnifiedDiff(plan.existingContent, plan.newContent, `a/${label}`, `b/${label}`));
+      }
+      return EXIT_OK;
+    }
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -8,34 +8,69 @@ import * as vscode from 'vscode';
 import { WorkspaceConfigService } from './services/workspaceConfig';
 import { ForwardSyncService } from './services/forwardSync';
 import { ReverseSyncService } from './services/reverseSync';
+import { ExtensionsSyncService } from './services/extensionsSync';
+import { LaunchTasksSyncService } from './services/launchTasksSync';
 import { FileWatcherService } from './services/fileWatcher';
 import { DiagnosticsService } from './services/diagnostics';
-import { WorkspaceCodeActionProvider } from './services/codeActions';
-import { SETTINGS_KEYS, type WorkspaceFile } from './types';
+import { PUSH_DOWN_SETTING_COMMAND, WorkspaceCodeActionProvider } from './services/codeActions';
+import { PREVIEW_SCHEME, SyncPreviewService } from './services/syncPreview';
+import { ConflictResolverService } from './services/conflictResolver';
+import { HISTORY_SCHEME, SyncHistoryService } from './services/syncHistory';
+import { SettingsProvenanceService } from './services/settingsProvenance';
+import { SettingsSchemaService } from './services/settingsSchema';
+import { WorkspaceHoverProvider } from './services/hoverProvider';
+import { FolderStatusService } from './services/folderStatus';
+import { FolderCodeLensProvider, PULL_FOLDER_COMMAND, SYNC_FOLDER_COMMAND } from './services/folderCodeLens';
+import {
+  EFFECTIVE_SETTINGS_VIEW,
+  EffectiveSettingsViewProvider,
+  REVEAL_SETTING_COMMAND,
+} from './services/effectiveSettingsView';
+import {
+  SETTINGS_KEYS,
+  type FolderSyncStatus,
+  type ForwardSyncOptions,
+  type SettingLocation,
+  type SettingsConflict,
+  type WorkspaceFile,
+} from './types';
 import { initQuickFixHint } from './utils/quickFixHint';
+import { createApi, type WorkspaceManagerApi } from './api';
 
 let outputChannel: vscode.OutputChannel;
 let statusBarItem: vscode.StatusBarItem;
 let workspaceConfig: WorkspaceConfigService;
 let forwardSync: ForwardSyncService;
 let reverseSync: ReverseSyncService;
+let extensionsSync: ExtensionsSyncService;
+let launchTasksSync: LaunchTasksSyncService;
 let fileWatcher: FileWatcherService;
 let diagnosticsService: DiagnosticsService;
+let settingsSchema: SettingsSchemaService;
+let syncPreview: SyncPreviewService;
+let conflictResolver: ConflictResolverService;
+let syncHistory: SyncHistoryService;
+let effectiveSettingsView: EffectiveSettingsViewProvider;
+let folderStatus: FolderStatusService;
+let folderCodeLens: FolderCodeLensProvider;
+let driftedFolders: FolderSyncStatus[] = [];
+// Conflicts already shown to the user, by folder and key (value: the conflicting values)
+const notifiedConflicts = new Map<string, string>();
 
 /**
  * Extension activation
  */
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+export async function activate(context: vscode.ExtensionContext): Promise<WorkspaceManagerApi | undefined> {
   // Create output channel for logging
   outputChannel = vscode.window.createOutputChannel('Workspace Manager');
   outputChannel.appendLine('Workspace Manager activating...');
 
   // Initialize workspace config service
-  workspaceConfig = new WorkspaceConfigService();
+  workspaceConfig = new WorkspaceConfigService(findWorkspaceFile(), outputChannel);
 
   if (!workspaceConfig.hasWorkspaceFile()) {
     outputChannel.appendLine('No workspace file found - extension will not activate');
-    return;
+    return undefined;
   }
 
   outputChannel.appendLine(`Workspace file: ${workspaceConfig.getWorkspacePath()}`);
@@ -44,10 +79,30 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   await initQuickFixHint();
 
   // Initialize services
-  forwardSync = new ForwardSyncService(workspaceConfig, outputChannel);
-  reverseSync = new ReverseSyncService(workspaceConfig, outputChannel);
-  diagnosticsService = new DiagnosticsService(workspaceConfig, outputChannel);
-  fileWatcher = new FileWatcherService(workspaceConfig, forwardSync, reverseSync, diagnosticsService, outputChannel);
+  syncHistory = new SyncHistoryService(context.workspaceState, workspaceConfig, outputChannel);
+  settingsSchema = new SettingsSchemaService();
+  const getScope = (key: string) => settingsSchema.getScope(key);
+  forwardSync = new ForwardSyncService(workspaceConfig, outputChannel, getScope);
+  reverseSync = new ReverseSyncService(workspaceConfig, outputChannel, getScope);
+  extensionsSync = new ExtensionsSyncService(workspaceConfig, outputChannel);
+  launchTasksSync = new LaunchTasksSyncService(workspaceConfig, outputChannel);
+  diagnosticsService = new DiagnosticsService(workspaceConfig, settingsSchema, forwardSync, outputChannel);
+  fileWatcher = new FileWatcherService(
+    workspaceConfig,
+    forwardSync,
+    reverseSync,
+    extensionsSync,
+    launchTasksSync,
+    diagnosticsService,
+    syncHistory,
+    outputChannel
+  );
+  syncPreview = new SyncPreviewService(workspaceConfig, forwardSync, reverseSync, outputChannel);
+  conflictResolver = new ConflictResolverService(workspaceConfig, forwardSync, outputChannel);
+  const provenance = new SettingsProvenanceService(workspaceConfig, forwardSync);
+  effectiveSettingsView = new EffectiveSettingsViewProvider(provenance, outputChannel);
+  folderStatus = new FolderStatusService(forwardSync);
+  folderCodeLens = new FolderCodeLensProvider(folderStatus, outputChannel);
 
   // Create status bar item
   statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -59,21 +114,81 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand('workspaceManager.syncForward', handleSyncForward),
     vscode.commands.registerCommand('workspaceManager.syncReverse', handleSyncReverse),
     vscode.commands.registerCommand('workspaceManager.enableAutoSync', handleEnableAutoSync),
-    vscode.commands.registerCommand('workspaceManager.disableAutoSync', handleDisableAutoSync)
+    vscode.commands.registerCommand('workspaceManager.disableAutoSync', handleDisableAutoSync),
+    vscode.commands.registerCommand('workspaceManager.previewForwardSync', handlePreviewForwardSync),
+    vscode.commands.registerCommand('workspaceManager.previewReverseSync', handlePreviewReverseSync),
+    vscode.commands.registerCommand('workspaceManager.applySyncPreview', handleApplySyncPreview),
+    vscode.commands.registerCommand('workspaceManager.discardSyncPreview', handleDiscardSyncPreview),
+    vscode.commands.registerCommand('workspaceManager.resolveConflicts', handleResolveConflicts),
+    vscode.commands.registerCommand('workspaceManager.undoLastSync', handleUndoLastSync),
+    vscode.commands.registerCommand('workspaceManager.showSyncHistory', handleShowSyncHistory),
+    vscode.commands.registerCommand('workspaceManager.refreshEffectiveSettings', () => effectiveSettingsView.refresh()),
+    vscode.commands.registerCommand(REVEAL_SETTING_COMMAND, handleRevealSettingSource),
+    vscode.commands.registerCommand(SYNC_FOLDER_COMMAND, (folderPath: string) =>
+      handleSyncFolder(folderPath, { overwriteFolderChanges: true })
+    ),
+    vscode.commands.registerCommand(PULL_FOLDER_COMMAND, handlePullFolder),
+    vscode.commands.registerCommand('workspaceManager.showDriftedFolders', handleShowDriftedFolders)
+  );
+
+  // Register the effective settings view and folder status lenses, refreshed (with the drift
+  // shown in the status bar) when settings files change or a sync runs
+  const refreshSettingsViews = () => {
+    effectiveSettingsView.refresh();
+    folderCodeLens.refresh();
+    void refreshDrift();
+  };
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(EFFECTIVE_SETTINGS_VIEW, effectiveSettingsView),
+    vscode.languages.registerCodeLensProvider({ pattern: '**/*.code-workspace' }, folderCodeLens),
+    fileWatcher.onDidChangeSettingsFiles(refreshSettingsViews),
+    forwardSync.onDidSync(refreshSettingsViews),
+    reverseSync.onDidSync(refreshSettingsViews)
+  );
+
+  // Notify about sync conflicts (keys changed in both the workspace file and a folder)
+  context.subscriptions.push(
+    forwardSync.onDidDetectConflicts(notifyConflicts),
+    reverseSync.onDidDetectConflicts(notifyConflicts)
   );
 
-  // Register code action provider for quick fixes
-  const codeActionProvider = new WorkspaceCodeActionProvider(workspaceConfig);
+  // Register virtual document provider for sync previews
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, syncPreview));
+
+  // Register virtual document provider for sync history snapshots
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, syncHistory));
+
+  // Register code action provider for quick fixes and refactorings
+  const codeActionProvider = new WorkspaceCodeActionProvider(workspaceConfig, forwardSync);
   context.subscriptions.push(
     vscode.languages.registerCodeActionsProvider({ pattern: '**/*.code-workspace' }, codeActionProvider, {
       providedCodeActionKinds: WorkspaceCodeActionProvider.providedCodeActionKinds,
-    })
+    }),
+    vscode.commands.registerCommand(PUSH_DOWN_SETTING_COMMAND, (uri: vscode.Uri, keyPath: string[]) =>
+      codeActionProvider.pushDownSetting(uri, keyPath)
+    )
+  );
+
+  // Register hover provider showing how settings reach each folder
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(
+      { pattern: '**/*.code-workspace' },
+      new WorkspaceHoverProvider(workspaceConfig, provenance)
+    )
   );
 
   // Register disposables
   context.subscriptions.push(outputChannel);
   context.subscriptions.push({ dispose: () => fileWatcher.dispose() });
   context.subscriptions.push({ dispose: () => diagnosticsService.dispose() });
+  context.subscriptions.push({ dispose: () => settingsSchema.dispose() });
+  context.subscriptions.push({ dispose: () => syncPreview.dispose() });
+  context.subscriptions.push({ dispose: () => effectiveSettingsView.dispose() });
+  context.subscriptions.push({ dispose: () => folderCodeLens.dispose() });
+  context.subscriptions.push({ dispose: () => forwardSync.dispose() });
+  context.subscriptions.push({ dispose: () => reverseSync.dispose() });
+  context.subscriptions.push({ dispose: () => syncHistory.dispose() });
+  context.subscriptions.push({ dispose: () => workspaceConfig.dispose() });
 
   // Listen for configuration changes
   context.subscriptions.push(
@@ -96,10 +211,16 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     })
   );
 
+  // Re-validate when extensions (and with them the configuration schemas) change
+  context.subscriptions.push(settingsSchema.onDidChange(() => diagnosticsService.validate()));
+
   // Initialize based on current settings
   await initialize();
 
   outputChannel.appendLine('Workspace Manager activated');
+
+  // Public API for other extensions
+  return createApi({ workspaceConfig, forwardSync, reverseSync, fileWatcher, syncHistory });
 }
 
 /**
@@ -110,6 +231,17 @@ export function deactivate(): void {
   outputChannel?.appendLine('Workspace Manager deactivated');
 }
 
+/**
+ * Find the .code-workspace file of the current window
+ */
+function findWorkspaceFile(): string | undefined {
+  const workspaceFile = vscode.workspace.workspaceFile;
+  if (workspaceFile && workspaceFile.scheme === 'file') {
+    return workspaceFile.fsPath;
+  }
+  return undefined;
+}
+
 /**
  * Initialize the extension based on current settings
  */
@@ -130,10 +262,17 @@ async function initialize(): Promise<void> {
 
       // Perform initial forward sync
       outputChannel.appendLine('Performing initial forward sync...');
-      await forwardSync.sync();
+      await syncHistory.runOperation('Initial forward sync', async () => {
+        await forwardSync.sync();
+        await extensionsSync.sync();
+        await launchTasksSync.sync();
+      });
     } else {
       updateStatusBar(false);
     }
+
+    // Report folders that drifted from the workspace file (shown in the status bar in manual mode)
+    await refreshDrift();
   } catch (error) {
     outputChannel.appendLine(`Initialization error: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -211,12 +350,18 @@ async function checkAutoSyncWarnings(): Promise<void> {
 
 /**
  * Update status bar item
+ *
+ * In manual mode the number of drifted folders is shown; clicking it lists them.
  */
 function updateStatusBar(isAutoSyncEnabled: boolean): void {
   if (isAutoSyncEnabled) {
     statusBarItem.text = '$(sync) WM: Auto';
     statusBarItem.tooltip = 'Workspace Manager: Auto-sync enabled. Click to disable.';
     statusBarItem.command = 'workspaceManager.disableAutoSync';
+  } else if (driftedFolders.length > 0) {
+    statusBarItem.text = `$(sync-ignored) WM: Manual · ${driftedFolders.length} drifted`;
+    statusBarItem.tooltip = `Workspace Manager: Auto-sync disabled. ${driftedFolders.length} folder(s) differ from the workspace file. Click to review.`;
+    statusBarItem.command = 'workspaceManager.showDriftedFolders';
   } else {
     statusBarItem.text = '$(sync-ignored) WM: Manual';
     statusBarItem.tooltip = 'Workspace Manager: Auto-sync disabled. Click to enable.';
@@ -225,6 +370,20 @@ function updateStatusBar(isAutoSyncEnabled: boolean): void {
   statusBarItem.show();
 }
 
+/**
+ * Recompute which folders' .vscode/settings.json differ from the generated settings
+ */
+async function refreshDrift(): Promise<void> {
+  try {
+    const statuses = await folderStatus.getStatus();
+    driftedFolders = statuses.filter((status) => status.driftedKeys.length > 0);
+  } catch (error) {
+    outputChannel.appendLine(`Drift detection error: ${error instanceof Error ? error.message : String(error)}`);
+    driftedFolders = [];
+  }
+  updateStatusBar(fileWatcher.isActive());
+}
+
 /**
  * Command: Sync Settings to Folders (forward sync)
  */
@@ -232,9 +391,25 @@ async function handleSyncForward(): Promise<void> {
   outputChannel.appendLine('Manual forward sync triggered');
 
   try {
-    const count = await forwardSync.sync();
+    const [count, extensionsCount, launchTasksCount] = await syncHistory.runOperation('Forward sync', async () => [
+      await forwardSync.sync(),
+      await extensionsSync.sync(),
+      await launchTasksSync.sync(),
+    ]);
+
+    const synced: string[] = [];
     if (count > 0) {
-      vscode.window.showInformationMessage(`Workspace Manager: Synced settings to ${count} folder(s)`);
+      synced.push(`settings to ${count} folder(s)`);
+    }
+    if (extensionsCount > 0) {
+      synced.push(`extension recommendations to ${extensionsCount} folder(s)`);
+    }
+    if (launchTasksCount > 0) {
+      synced.push(`launch/tasks configurations to ${launchTasksCount} folder(s)`);
+    }
+
+    if (synced.length > 0) {
+      vscode.window.showInformationMessage(`Workspace Manager: Synced ${synced.join(', ')}`);
     } else {
       vscode.window.showInformationMessage('Workspace Manager: Settings already up to date');
     }
@@ -260,13 +435,18 @@ async function handleSyncReverse(): Promise<void> {
       return;
     }
 
-    let syncedCount = 0;
-    for (const folder of folders) {
-      const success = await reverseSync.syncFolderToWorkspace(folder.path);
-      if (success) {
-        syncedCount++;
+    const syncedCount = await syncHistory.runOperation('Reverse sync', async () => {
+      let count = 0;
+      for (const folder of folders) {
+        const success = await reverseSync.syncFolderToWorkspace(folder.path);
+        const extensionsSuccess = await extensionsSync.syncFolderToWorkspace(folder.path);
+        const launchTasksSuccess = await launchTasksSync.syncFolderToWorkspace(folder.path);
+        if (success || extensionsSuccess || launchTasksSuccess) {
+          count++;
+        }
       }
-    }
+      return count;
+    });
 
     if (syncedCount > 0) {
       vscode.window.showInformationMessage(`Workspace Manager: Synced changes from ${syncedCount} folder(s)`);
@@ -281,6 +461,104 @@ async function handleSyncReverse(): Promise<void> {
   }
 }
 
+/**
+ * Command: Sync a single folder (forward sync, from the folder CodeLens)
+ *
+ * @param options - Forward sync options (callers pushing a drifted folder overwrite folder-side changes)
+ */
+async function handleSyncFolder(folderPath: string, options: ForwardSyncOptions = {}): Promise<void> {
+  outputChannel.appendLine(`Manual forward sync triggered for ${folderPath}`);
+
+  try {
+    const count = await syncHistory.runOperation(`Forward sync (${folderPath})`, () =>
+      forwardSync.sync(folderPath, options)
+    );
+
+    if (count > 0) {
+      vscode.window.showInformationMessage(`Workspace Manager: Synced settings to ${folderPath}`);
+    } else {
+      vscode.window.showInformationMessage(`Workspace Manager: Settings of ${folderPath} already up to date`);
+    }
+  } catch (error) {
+    outputChannel.appendLine(`Forward sync error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Sync failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Pull changes from a single folder (reverse sync, from the folder CodeLens)
+ */
+async function handlePullFolder(folderPath: string): Promise<void> {
+  outputChannel.appendLine(`Manual reverse sync triggered for ${folderPath}`);
+
+  try {
+    const success = await syncHistory.runOperation(`Reverse sync (${folderPath})`, () =>
+      reverseSync.syncFolderToWorkspace(folderPath)
+    );
+
+    if (success) {
+      vscode.window.showInformationMessage(`Workspace Manager: Synced changes from ${folderPath}`);
+    } else {
+      vscode.window.showInformationMessage('Workspace Manager: No changes to sync');
+    }
+  } catch (error) {
+    outputChannel.appendLine(`Reverse sync error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Sync failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Show Drifted Folders (pick a folder, then push to or pull from it)
+ */
+async function handleShowDriftedFolders(): Promise<void> {
+  await refreshDrift();
+  if (driftedFolders.length === 0) {
+    vscode.window.showInformationMessage('Workspace Manager: All folders are in sync');
+    return;
+  }
+
+  const pickedFolder = await vscode.window.showQuickPick(
+    driftedFolders.map((status) => ({
+      label: status.folder.name || status.folder.path,
+      description: `${status.driftedKeys.length} key(s)`,
+      detail: status.driftedKeys.join(', '),
+      status,
+    })),
+    { title: 'Workspace Manager: Drifted Folders', placeHolder: 'Select a folder' }
+  );
+  if (!pickedFolder) {
+    return;
+  }
+
+  const folderPath = pickedFolder.status.folder.path;
+  const actions = [
+    { label: '$(arrow-down) Push workspace settings to folder', action: 'push' },
+    { label: '$(arrow-up) Pull changes from folder', action: 'pull' },
+    { label: '$(go-to-file) Open generated settings.json', action: 'open' },
+  ] as const;
+
+  const pickedAction = await vscode.window.showQuickPick(actions, {
+    title: `Workspace Manager: ${pickedFolder.label}`,
+    placeHolder: 'Select an action',
+  });
+
+  switch (pickedAction?.action) {
+    case 'push':
+      await handleSyncFolder(folderPath, { overwriteFolderChanges: true });
+      break;
+    case 'pull':
+      await handlePullFolder(folderPath);
+      break;
+    case 'open':
+      await vscode.window.showTextDocument(vscode.Uri.file(pickedFolder.status.settingsFile));
+      break;
+  }
+}
+
 /**
  * Command: Enable Auto-Sync
  */
@@ -290,7 +568,7 @@ async function handleEnableAutoSync(): Promise<void> {
   try {
     const workspace = await workspaceConfig.load();
     workspace.settings[SETTINGS_KEYS.autoSyncEnabled] = true;
-    await workspaceConfig.save(workspace);
+    await syncHistory.runOperation('Enable auto-sync', () => workspaceConfig.save(workspace));
 
     fileWatcher.startWatching();
     updateStatusBar(true);
@@ -316,7 +594,7 @@ async function handleDisableAutoSync(): Promise<void> {
   try {
     const workspace = await workspaceConfig.load();
     workspace.settings[SETTINGS_KEYS.autoSyncEnabled] = false;
-    await workspaceConfig.save(workspace);
+    await syncHistory.runOperation('Disable auto-sync', () => workspaceConfig.save(workspace));
 
     fileWatcher.stopWatching();
     updateStatusBar(false);
@@ -329,3 +607,187 @@ async function handleDisableAutoSync(): Promise<void> {
     );
   }
 }
+
+/**
+ * Command: Preview Forward Sync
+ */
+async function handlePreviewForwardSync(): Promise<void> {
+  outputChannel.appendLine('Forward sync preview triggered');
+
+  try {
+    const count = await syncPreview.previewForward();
+    await promptSyncPreview(count, `Forward sync would update ${count} folder(s)`);
+  } catch (error) {
+    outputChannel.appendLine(`Forward sync preview error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Preview failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Preview Reverse Sync
+ */
+async function handlePreviewReverseSync(): Promise<void> {
+  outputChannel.appendLine('Reverse sync preview triggered');
+
+  try {
+    const count = await syncPreview.previewReverse();
+    await promptSyncPreview(count, `Reverse sync would apply changes from ${count} folder(s)`);
+  } catch (error) {
+    outputChannel.appendLine(`Reverse sync preview error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Preview failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Apply Sync Preview
+ */
+async function handleApplySyncPreview(): Promise<void> {
+  try {
+    const count = await syncHistory.runOperation('Apply sync preview', () => syncPreview.apply());
+    await vscode.commands.executeCommand('setContext', 'workspaceManager.previewPending', false);
+    vscode.window.showInformationMessage(`Workspace Manager: Synced ${count} folder(s)`);
+  } catch (error) {
+    outputChannel.appendLine(`Apply preview error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Sync failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Discard Sync Preview
+ */
+async function handleDiscardSyncPreview(): Promise<void> {
+  await syncPreview.discard();
+  await vscode.commands.executeCommand('setContext', 'workspaceManager.previewPending', false);
+}
+
+/**
+ * Show Apply/Discard actions for an opened sync preview
+ */
+async function promptSyncPreview(count: number, message: string): Promise<void> {
+  if (count === 0) {
+    vscode.window.showInformationMessage('Workspace Manager: Nothing to sync');
+    return;
+  }
+
+  await vscode.commands.executeCommand('setContext', 'workspaceManager.previewPending', true);
+  const choice = await vscode.window.showInformationMessage(`Workspace Manager: ${message}`, 'Apply', 'Discard');
+
+  // The preview may have been applied or discarded from the editor title in the meantime
+  if (!syncPreview.hasPendingPreview()) {
+    return;
+  }
+
+  if (choice === 'Apply') {
+    await handleApplySyncPreview();
+  } else if (choice === 'Discard') {
+    await handleDiscardSyncPreview();
+  }
+}
+
+/**
+ * Command: Resolve Sync Conflicts
+ */
+async function handleResolveConflicts(): Promise<void> {
+  outputChannel.appendLine('Conflict resolution triggered');
+
+  try {
+    const conflicts = await conflictResolver.findConflicts();
+    if (conflicts.length === 0) {
+      vscode.window.showInformationMessage('Workspace Manager: No sync conflicts');
+      return;
+    }
+
+    const count = await syncHistory.runOperation('Resolve conflicts', () => conflictResolver.resolveAll());
+    if (count > 0) {
+      vscode.window.showInformationMessage(`Workspace Manager: Resolved ${count} of ${conflicts.length} conflict(s)`);
+    }
+  } catch (error) {
+    outputChannel.appendLine(`Resolve conflicts error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Failed to resolve conflicts - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Show a warning when a sync left conflicting keys untouched (once per folder and key until the conflict changes)
+ */
+async function notifyConflicts(conflicts: SettingsConflict[]): Promise<void> {
+  // Auto sync reports unresolved conflicts on every run, so only show new or changed ones.
+  // Resolving a conflict updates its base value, so a later conflict on the same key is shown again.
+  const newConflicts = conflicts.filter((c) => {
+    const id = `${c.folder.path}\0${c.key}`;
+    const values = JSON.stringify([c.baseValue, c.workspaceValue, c.folderValue]);
+    if (notifiedConflicts.get(id) === values) {
+      return false;
+    }
+    notifiedConflicts.set(id, values);
+    return true;
+  });
+  if (newConflicts.length === 0) {
+    return;
+  }
+
+  const keys = newConflicts.map((c) => `${c.folder.name || c.folder.path}: ${c.key}`);
+  const choice = await vscode.window.showWarningMessage(
+    `Workspace Manager: ${newConflicts.length} setting(s) changed in both the workspace file and folder settings and were not synced (${keys.join(', ')})`,
+    'Resolve Conflicts'
+  );
+
+  if (choice === 'Resolve Conflicts') {
+    await handleResolveConflicts();
+  }
+}
+
+/**
+ * Command: Undo Last Sync
+ */
+async function handleUndoLastSync(): Promise<void> {
+  try {
+    const operation = await syncHistory.undoLast();
+    if (operation) {
+      vscode.window.showInformationMessage(`Workspace Manager: Undid "${operation.label}"`);
+    } else if (!syncHistory.getOperations().some((op) => !op.isRestore && !op.undone)) {
+      vscode.window.showInformationMessage('Workspace Manager: Nothing to undo');
+    }
+  } catch (error) {
+    outputChannel.appendLine(`Undo sync error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Undo failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Sync History
+ */
+async function handleShowSyncHistory(): Promise<void> {
+  try {
+    await syncHistory.showHistory();
+  } catch (error) {
+    outputChannel.appendLine(`Sync history error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Sync history failed - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Command: Reveal Setting Source (effective settings view)
+ */
+async function handleRevealSettingSource(location: SettingLocation): Promise<void> {
+  try {
+    await effectiveSettingsView.revealLocation(location);
+  } catch (error) {
+    outputChannel.appendLine(`Reveal setting error: ${error instanceof Error ? error.message : String(error)}`);
+    vscode.window.showErrorMessage(
+      `Workspace Manager: Failed to open ${location.filePath} - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
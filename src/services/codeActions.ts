@@ -1,43 +1,74 @@
 /**
  * Code Actions service
  *
- * Provides quick fixes for workspace configuration issues.
+ * Provides quick fixes for workspace configuration issues, and refactorings that move
+ * settings between root settings, subFolderSettings.defaults and folders[].settings.
  */
 
 import * as vscode from 'vscode';
 import * as jsonc from 'jsonc-parser';
 import { WorkspaceConfigService } from './workspaceConfig';
-import { SETTINGS_KEYS } from '../types';
+import { SettingsMerger } from './settingsMerger';
+import { ForwardSyncService } from './forwardSync';
+import {
+  SETTINGS_KEYS,
+  WORKSPACE_MANAGER_PREFIX,
+  type FolderConfig,
+  type Settings,
+  type WorkspaceFile,
+} from '../types';
+import { detectIndentationStyle } from '../utils/jsoncFormatting';
+import {
+  expandOverrideKey,
+  flattenLanguageOverrides,
+  isLanguageOverrideKey,
+  toSettingsPath,
+} from '../utils/languageOverrides';
+
+export const PUSH_DOWN_SETTING_COMMAND = 'workspaceManager.pushDownSetting';
 
-export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
-  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+/**
+ * A setting under the cursor: the settings block it is in and its path inside the block
+ */
+interface SettingAtCursor {
+  /** ["settings"] or ["folders", index, "settings"] */
+  blockPath: jsonc.JSONPath;
+  /** [key], or [header, setting] for entries of language blocks */
+  keyPath: string[];
+  value: unknown;
+}
 
-  constructor(private workspaceConfig: WorkspaceConfigService) {}
+/**
+ * A setting moved within the workspace file: removed at one path, set at another
+ */
+interface SettingMove {
+  from: jsonc.JSONPath;
+  /** Path to set the value at (undefined to only remove it) */
+  to?: jsonc.JSONPath;
+  value: unknown;
+}
 
-  /**
-   * Detect the indentation style used in the document
-   */
-  private detectIndentationStyle(text: string): jsonc.FormattingOptions {
-    // Find the first indented line to detect tab vs spaces
-    const lines = text.split('\n');
-    for (const line of lines) {
-      if (line.startsWith('\t')) {
-        return { tabSize: 1, insertSpaces: false };
-      }
-      const match = line.match(/^( +)/);
-      if (match) {
-        // Detect tab size from the indentation
-        const spaces = match[1].length;
-        return { tabSize: spaces, insertSpaces: true };
-      }
-    }
-    // Default to tabs (common for workspace files)
-    return { tabSize: 1, insertSpaces: false };
-  }
+export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly removeRedundantOverridesKind = vscode.CodeActionKind.Source.append(
+    'workspaceManager.removeRedundantOverrides'
+  );
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+    vscode.CodeActionKind.RefactorMove,
+    vscode.CodeActionKind.RefactorExtract,
+    WorkspaceCodeActionProvider.removeRedundantOverridesKind,
+  ];
+
+  private merger = new SettingsMerger();
+
+  constructor(
+    private workspaceConfig: WorkspaceConfigService,
+    private forwardSync: ForwardSyncService
+  ) {}
 
   async provideCodeActions(
     document: vscode.TextDocument,
-    _range: vscode.Range,
+    range: vscode.Range,
     context: vscode.CodeActionContext
   ): Promise<vscode.CodeAction[]> {
     // Only provide code actions for the ACTIVE workspace file
@@ -145,9 +176,365 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       }
     }
 
+    // Quick fixes for invalid, unused and redundant exclude patterns
+    const excludePatternCodes = [
+      'exclude-pattern-invalid',
+      'exclude-pattern-unused',
+      'exclude-negation-unused',
+      'exclude-pattern-shadowed',
+    ];
+    const excludePatternDiagnostics = context.diagnostics.filter((d) => excludePatternCodes.includes(String(d.code)));
+    for (const diagnostic of excludePatternDiagnostics) {
+      // Option 1: Replace with the suggested key (the message ends with 'Did you mean "<key>"?')
+      const suggestion = /Did you mean "([^"]+)"\?$/.exec(diagnostic.message)?.[1];
+      if (suggestion) {
+        const replaceFix = new vscode.CodeAction(`Replace with "${suggestion}"`, vscode.CodeActionKind.QuickFix);
+        replaceFix.diagnostics = [diagnostic];
+        replaceFix.edit = this.createExcludePatternEdit(document, diagnostic, suggestion);
+        replaceFix.isPreferred = true;
+        actions.push(replaceFix);
+      }
+
+      // Option 2: Remove the entry
+      const removeFix = new vscode.CodeAction('Remove exclude pattern', vscode.CodeActionKind.QuickFix);
+      removeFix.diagnostics = [diagnostic];
+      removeFix.edit = this.createExcludePatternEdit(document, diagnostic, undefined);
+      removeFix.isPreferred = !suggestion;
+      actions.push(removeFix);
+    }
+
+    // Quick fix for redundant folder overrides
+    const redundantDiagnostics = context.diagnostics.filter((d) => d.code === 'redundant-override');
+    for (const diagnostic of redundantDiagnostics) {
+      const fix = new vscode.CodeAction('Remove redundant override', vscode.CodeActionKind.QuickFix);
+      fix.diagnostics = [diagnostic];
+      fix.edit = this.createRemoveRedundantOverridesEdit(document, [diagnostic]);
+      fix.isPreferred = true;
+      actions.push(fix);
+    }
+
+    // Source action removing every redundant override in the file
+    const allRedundantDiagnostics = vscode.languages
+      .getDiagnostics(document.uri)
+      .filter((d) => d.code === 'redundant-override');
+    if (allRedundantDiagnostics.length > 0) {
+      const removeAll = new vscode.CodeAction(
+        'Remove all redundant overrides',
+        WorkspaceCodeActionProvider.removeRedundantOverridesKind
+      );
+      removeAll.diagnostics = allRedundantDiagnostics;
+      removeAll.edit = this.createRemoveRedundantOverridesEdit(document, allRedundantDiagnostics);
+      actions.push(removeAll);
+    }
+
+    // Refactorings for the setting under the cursor
+    actions.push(...(await this.provideRefactorings(document, range)));
+
     return actions;
   }
 
+  /**
+   * Refactorings moving the setting under the cursor between settings blocks
+   *
+   * - Root settings: move to subFolderSettings.defaults, or push down to selected folders
+   * - folders[].settings: promote to root settings, and extract the settings all folders share into defaults
+   *
+   * Moves are only offered when they don't change what any folder ends up with.
+   */
+  private async provideRefactorings(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.CodeAction[]> {
+    const text = document.getText();
+    const setting = this.getSettingAtOffset(text, document.offsetAt(range.start));
+    if (!setting) {
+      return [];
+    }
+
+    const actions: vscode.CodeAction[] = [];
+    const key = setting.keyPath.join('.');
+    const folderSettings = await this.getFolderSettings(text);
+
+    const offerMove = async (title: string, kind: vscode.CodeActionKind, moves: SettingMove[]) => {
+      const modifiedText = this.applyMoves(text, moves);
+      if (await this.preservesFolderSettings(folderSettings, modifiedText)) {
+        const action = new vscode.CodeAction(title, kind);
+        action.edit = this.createFullTextEdit(document, text, modifiedText);
+        actions.push(action);
+      }
+    };
+
+    if (setting.blockPath[0] === 'settings') {
+      await offerMove(`Move "${key}" to subFolderSettings.defaults`, vscode.CodeActionKind.RefactorMove, [
+        {
+          from: ['settings', ...setting.keyPath],
+          to: ['settings', SETTINGS_KEYS.syncSubFolderSettingsDefaults, ...setting.keyPath],
+          value: setting.value,
+        },
+      ]);
+
+      // Folders are picked interactively, so this one runs a command instead of carrying an edit
+      const pushDown = new vscode.CodeAction(`Push "${key}" down to folders...`, vscode.CodeActionKind.RefactorMove);
+      pushDown.command = {
+        title: 'Push down to folders',
+        command: PUSH_DOWN_SETTING_COMMAND,
+        arguments: [document.uri, setting.keyPath],
+      };
+      actions.push(pushDown);
+    } else {
+      if (setting.value !== null) {
+        await offerMove(`Promote "${key}" to root settings`, vscode.CodeActionKind.RefactorMove, [
+          {
+            from: [...setting.blockPath, ...setting.keyPath],
+            to: ['settings', ...setting.keyPath],
+            value: setting.value,
+          },
+        ]);
+      }
+
+      const commonMoves = await this.findCommonFolderSettingMoves(text, folderSettings);
+      if (commonMoves.length > 0) {
+        await offerMove(
+          'Extract settings common to all folders into defaults',
+          vscode.CodeActionKind.RefactorExtract,
+          commonMoves
+        );
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Command: push a root setting down into the folders the user picks, then remove it from root
+   *
+   * Only folders inheriting the setting are offered. Picked folders get the value they end up with
+   * now (including entries merged from their own value), so their settings don't change.
+   */
+  async pushDownSetting(uri: vscode.Uri, keyPath: string[]): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const text = document.getText();
+    const folders = ((jsonc.parse(text) as Partial<WorkspaceFile> | undefined)?.folders ?? []) as FolderConfig[];
+    const formattingOptions = detectIndentationStyle(text);
+    const key = keyPath.join('.');
+
+    // Folders whose settings change without the root value are the ones inheriting it
+    const before = await this.getFolderSettings(text);
+    const withoutRoot = this.removeSetting(text, ['settings', ...keyPath], formattingOptions);
+    const after = await this.getFolderSettings(withoutRoot);
+
+    const items: Array<vscode.QuickPickItem & { index: number }> = [];
+    for (const [index, folder] of folders.entries()) {
+      if (before[index] && !this.merger.deepEqual(before[index], after[index])) {
+        items.push({ label: folder.name || folder.path, description: folder.path, picked: true, index });
+      }
+    }
+    if (items.length === 0) {
+      vscode.window.showInformationMessage(`Workspace Manager: No folder inherits "${key}"`);
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      title: `Workspace Manager: Push "${key}" down`,
+      placeHolder: 'Select the folders that keep the setting',
+    });
+    if (!picked) {
+      return;
+    }
+
+    let modifiedText = withoutRoot;
+    for (const { index } of picked) {
+      const value = this.getMergedValue(before[index]!, keyPath);
+      if (value !== undefined) {
+        modifiedText = jsonc.applyEdits(
+          modifiedText,
+          jsonc.modify(modifiedText, ['folders', index, 'settings', ...keyPath], value, { formattingOptions })
+        );
+      }
+    }
+
+    const pickedIndexes = picked.map(({ index }) => index);
+    if (!(await this.preservesFolderSettings(before, modifiedText, pickedIndexes))) {
+      vscode.window.showWarningMessage(
+        `Workspace Manager: Can't push "${key}" down without changing the settings of the selected folders`
+      );
+      return;
+    }
+
+    await vscode.workspace.applyEdit(this.createFullTextEdit(document, text, modifiedText));
+  }
+
+  /**
+   * Get the setting under the cursor in root "settings" or a folders[].settings block
+   *
+   * workspaceManager.* keys and language block headers (without an entry) are ignored.
+   */
+  private getSettingAtOffset(text: string, offset: number): SettingAtCursor | undefined {
+    const location = jsonc.getLocation(text, offset);
+    const path = location.path;
+
+    let blockPath: jsonc.JSONPath;
+    if (path[0] === 'settings') {
+      blockPath = ['settings'];
+    } else if (path[0] === 'folders' && typeof path[1] === 'number' && path[2] === 'settings') {
+      blockPath = path.slice(0, 3);
+    } else {
+      return undefined;
+    }
+
+    const [first, second] = path.slice(blockPath.length);
+    if (typeof first !== 'string' || first.startsWith(WORKSPACE_MANAGER_PREFIX)) {
+      return undefined;
+    }
+    if (isLanguageOverrideKey(first) && typeof second !== 'string') {
+      return undefined;
+    }
+    const keyPath = isLanguageOverrideKey(first) ? [first, second as string] : [first];
+
+    const rootNode = jsonc.parseTree(text);
+    const valueNode = rootNode && jsonc.findNodeAtLocation(rootNode, [...blockPath, ...keyPath]);
+    if (!valueNode) {
+      return undefined;
+    }
+    return { blockPath, keyPath, value: jsonc.getNodeValue(valueNode) };
+  }
+
+  /**
+   * Find the settings every (non-root) folder sets to the same value in folders[].settings, as moves into
+   * subFolderSettings.defaults
+   *
+   * Each setting is only included if moving it keeps what the folders end up with (not the case for
+   * settings excluded by sync.rootSettings.exclude, or overridden by a profile or folder override).
+   */
+  private async findCommonFolderSettingMoves(
+    text: string,
+    folderSettings: Array<Settings | undefined>
+  ): Promise<SettingMove[]> {
+    const folders = ((jsonc.parse(text) as Partial<WorkspaceFile> | undefined)?.folders ?? []) as FolderConfig[];
+    const folderIndexes = folders.map((_, index) => index).filter((index) => folderSettings[index] !== undefined);
+    if (folderIndexes.length < 2) {
+      return [];
+    }
+
+    const [first, ...others] = folderIndexes.map((index) => flattenLanguageOverrides(folders[index].settings ?? {}));
+    const common = Object.entries(first).filter(
+      ([key, value]) =>
+        !key.startsWith(WORKSPACE_MANAGER_PREFIX) &&
+        !isLanguageOverrideKey(key) &&
+        value !== null &&
+        others.every((settings) => key in settings && this.merger.deepEqual(settings[key], value))
+    );
+
+    const moves: SettingMove[] = [];
+    for (const [key, value] of common) {
+      const keyPath = toSettingsPath(key);
+      const keyMoves = folderIndexes.map((index, i) => ({
+        from: ['folders', index, 'settings', ...keyPath],
+        // Set the default once, while removing the key from every folder
+        to: i === 0 ? ['settings', SETTINGS_KEYS.syncSubFolderSettingsDefaults, ...keyPath] : undefined,
+        value,
+      }));
+      if (await this.preservesFolderSettings(folderSettings, this.applyMoves(text, keyMoves))) {
+        moves.push(...keyMoves);
+      }
+    }
+
+    return moves;
+  }
+
+  /**
+   * Compute what each folder ends up with for a workspace file content, normalized for comparison
+   *
+   * Uses the forward sync merge chain, with the shared files from workspaceManager.extends.
+   *
+   * @returns Settings per entry of "folders" (undefined for the root folder, which isn't synced)
+   */
+  private async getFolderSettings(text: string): Promise<Array<Settings | undefined>> {
+    const workspace = (jsonc.parse(text) as Partial<WorkspaceFile> | undefined) ?? {};
+    const globalSettings = await this.workspaceConfig.resolveRootSettings(workspace.settings ?? {});
+
+    return Promise.all(
+      (workspace.folders ?? []).map(async (folder) =>
+        (await this.workspaceConfig.isWorkspaceRoot(folder.path))
+          ? undefined
+          : this.merger.flattenSettings(this.forwardSync.mergeFolderSettings(globalSettings, folder))
+      )
+    );
+  }
+
+  /**
+   * Check that modified workspace file content keeps what the folders end up with
+   *
+   * @param before - Folder settings of the original content (see getFolderSettings)
+   * @param folderIndexes - Only check these folders (all folders if omitted)
+   */
+  private async preservesFolderSettings(
+    before: Array<Settings | undefined>,
+    modifiedText: string,
+    folderIndexes?: number[]
+  ): Promise<boolean> {
+    const after = await this.getFolderSettings(modifiedText);
+    return before.every(
+      (settings, index) =>
+        (folderIndexes !== undefined && !folderIndexes.includes(index)) || this.merger.deepEqual(settings, after[index])
+    );
+  }
+
+  /**
+   * Get a setting's value from normalized folder settings
+   *
+   * @returns The value, or undefined if unset (or set differently per language of a multi-language header)
+   */
+  private getMergedValue(settings: Settings, keyPath: string[]): unknown {
+    const values = expandOverrideKey(keyPath.join('.')).map((key) => settings[key]);
+    return values.every((value) => this.merger.deepEqual(value, values[0])) ? values[0] : undefined;
+  }
+
+  /**
+   * Apply moves of settings to the workspace file content
+   */
+  private applyMoves(text: string, moves: SettingMove[]): string {
+    const formattingOptions = detectIndentationStyle(text);
+    let modifiedText = text;
+
+    for (const { from, to, value } of moves) {
+      if (to) {
+        modifiedText = jsonc.applyEdits(modifiedText, jsonc.modify(modifiedText, to, value, { formattingOptions }));
+      }
+      modifiedText = this.removeSetting(modifiedText, from, formattingOptions);
+    }
+
+    return modifiedText;
+  }
+
+  /**
+   * Create edit replacing the whole document with modified content
+   */
+  private createFullTextEdit(document: vscode.TextDocument, text: string, modifiedText: string): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+    edit.replace(document.uri, fullRange, modifiedText);
+    return edit;
+  }
+
+  /**
+   * Remove a setting, and the language block containing it if it was the block's last entry
+   */
+  private removeSetting(text: string, path: jsonc.JSONPath, formattingOptions: jsonc.FormattingOptions): string {
+    let modifiedText = jsonc.applyEdits(text, jsonc.modify(text, path, undefined, { formattingOptions }));
+
+    const parentPath = path.slice(0, -1);
+    const parentKey = parentPath[parentPath.length - 1];
+    const rootNode = jsonc.parseTree(modifiedText);
+    const blockNode = rootNode && jsonc.findNodeAtLocation(rootNode, parentPath);
+    if (typeof parentKey === 'string' && isLanguageOverrideKey(parentKey) && blockNode?.children?.length === 0) {
+      modifiedText = jsonc.applyEdits(
+        modifiedText,
+        jsonc.modify(modifiedText, parentPath, undefined, { formattingOptions })
+      );
+    }
+
+    return modifiedText;
+  }
+
   /**
    * Extract the setting key name from a diagnostic range
    */
@@ -245,7 +632,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
     }
 
     // Detect indentation style from the document
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
 
     // Find the folder index from the first diagnostic
     const firstDiagnosticOffset = document.offsetAt(diagnostics[0].range.start);
@@ -342,7 +729,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
     }
 
     // Detect indentation style from the document
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
 
     // Find the folder index from the first diagnostic
     const firstDiagnosticOffset = document.offsetAt(diagnostics[0].range.start);
@@ -403,7 +790,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       return edit;
     }
 
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
     let modifiedText = text;
 
     for (const diagnostic of diagnostics) {
@@ -473,7 +860,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       return edit;
     }
 
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
     const settingKey = this.extractSettingKeyFromRange(document, diagnostic.range);
 
     if (!settingKey) {
@@ -492,6 +879,81 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
     return edit;
   }
 
+  /**
+   * Create edit to replace or remove the exclude pattern entry a diagnostic points at
+   *
+   * @param replacement - New pattern, or undefined to remove the entry
+   */
+  private createExcludePatternEdit(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    replacement: string | undefined
+  ): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    const text = document.getText();
+    const rootNode = jsonc.parseTree(text);
+
+    if (!rootNode) {
+      return edit;
+    }
+
+    // The diagnostic range covers the array entry
+    const entryNode = jsonc.findNodeAtOffset(rootNode, document.offsetAt(diagnostic.range.start), true);
+    if (!entryNode || entryNode.parent?.type !== 'array') {
+      return edit;
+    }
+
+    const formattingOptions = detectIndentationStyle(text);
+    const edits = jsonc.modify(text, jsonc.getNodePath(entryNode), replacement, { formattingOptions });
+    const modifiedText = jsonc.applyEdits(text, edits);
+
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+    edit.replace(document.uri, fullRange, modifiedText);
+
+    return edit;
+  }
+
+  /**
+   * Create edit to remove the folder settings entries of redundant-override diagnostics
+   *
+   * Language blocks left empty by the removal are removed too.
+   */
+  private createRemoveRedundantOverridesEdit(
+    document: vscode.TextDocument,
+    diagnostics: readonly vscode.Diagnostic[]
+  ): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    const text = document.getText();
+    const rootNode = jsonc.parseTree(text);
+
+    if (!rootNode) {
+      return edit;
+    }
+
+    // Resolve all paths up front (the diagnostic ranges refer to the original text)
+    const paths: jsonc.JSONPath[] = [];
+    for (const diagnostic of diagnostics) {
+      // The diagnostic range starts at the property key
+      const keyNode = jsonc.findNodeAtOffset(rootNode, document.offsetAt(diagnostic.range.start), true);
+      const valueNode = keyNode?.parent?.type === 'property' ? keyNode.parent.children?.[1] : undefined;
+      if (valueNode) {
+        paths.push(jsonc.getNodePath(valueNode));
+      }
+    }
+
+    const formattingOptions = detectIndentationStyle(text);
+    let modifiedText = text;
+
+    for (const path of paths) {
+      modifiedText = this.removeSetting(modifiedText, path, formattingOptions);
+    }
+
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+    edit.replace(document.uri, fullRange, modifiedText);
+
+    return edit;
+  }
+
   /**
    * Create edit to remove reverseSync exclude patterns
    */
@@ -507,7 +969,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       return edit;
     }
 
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
     const offset = document.offsetAt(diagnostic.range.start);
 
     // Check if this is in root settings or folder settings
@@ -556,7 +1018,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       return edit;
     }
 
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
     const offset = document.offsetAt(diagnostic.range.start);
 
     // Check if this is in root settings or folder settings
@@ -599,7 +1061,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       return edit;
     }
 
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
 
     // Enable forward sync in root settings
     const edits = jsonc.modify(text, ['settings', SETTINGS_KEYS.syncEnabled], true, {
@@ -625,7 +1087,7 @@ export class WorkspaceCodeActionProvider implements vscode.CodeActionProvider {
       return edit;
     }
 
-    const formattingOptions = this.detectIndentationStyle(text);
+    const formattingOptions = detectIndentationStyle(text);
 
     // Enable reverseSync in root settings
     const edits = jsonc.modify(text, ['settings', SETTINGS_KEYS.reverseSyncEnabled], true, {
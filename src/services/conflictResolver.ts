@@ -0,0 +1,193 @@
+/**
+ * Conflict resolver service
+ *
+ * Walks the user through keys that changed differently in the workspace file and in a
+ * folder's .vscode/settings.json since the last sync, one key at a time.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ForwardSyncService } from './forwardSync';
+import { SettingsMerger } from './settingsMerger';
+import { SyncManifestService } from './syncManifest';
+import { WorkspaceConfigService } from './workspaceConfig';
+import { detectIndentationStyle, modifyJsonc } from '../utils/jsoncFormatting';
+import { flattenLanguageOverrides, toSettingsPath } from '../utils/languageOverrides';
+import { getFolderVariables, unresolveVariables } from '../utils/variables';
+import { SETTINGS_KEYS, type MergeStrategies, type SettingsConflict } from '../types';
+
+type Resolution = 'workspace' | 'folder' | 'edit';
+
+export class ConflictResolverService {
+  private workspaceConfig: WorkspaceConfigService;
+  private forwardSync: ForwardSyncService;
+  private manifest: SyncManifestService;
+  private merger = new SettingsMerger();
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(
+    workspaceConfig: WorkspaceConfigService,
+    forwardSync: ForwardSyncService,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.workspaceConfig = workspaceConfig;
+    this.forwardSync = forwardSync;
+    this.manifest = new SyncManifestService(workspaceConfig);
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Find all current conflicts across folders
+   */
+  async findConflicts(): Promise<SettingsConflict[]> {
+    const plans = await this.forwardSync.plan();
+    return plans.flatMap((plan) => plan.conflicts);
+  }
+
+  /**
+   * Ask the user how to resolve each conflict and apply the choices
+   *
+   * @returns Number of conflicts resolved (stops at the first cancelled prompt)
+   */
+  async resolveAll(): Promise<number> {
+    const conflicts = await this.findConflicts();
+    let resolvedCount = 0;
+
+    for (const conflict of conflicts) {
+      const resolved = await this.resolve(conflict);
+      if (!resolved) {
+        break;
+      }
+      resolvedCount++;
+    }
+
+    return resolvedCount;
+  }
+
+  /**
+   * Ask the user how to resolve a single conflict and apply the choice
+   *
+   * @returns false if the user cancelled
+   */
+  private async resolve(conflict: SettingsConflict): Promise<boolean> {
+    const label = conflict.folder.name || conflict.folder.path;
+    const items: Array<vscode.QuickPickItem & { resolution: Resolution }> = [
+      {
+        label: 'Take workspace value',
+        description: this.formatValue(conflict.workspaceValue),
+        resolution: 'workspace',
+      },
+      {
+        label: 'Take folder value',
+        description: this.formatValue(conflict.folderValue),
+        resolution: 'folder',
+      },
+      {
+        label: 'Edit value...',
+        description: `last synced: ${this.formatValue(conflict.baseValue)}`,
+        resolution: 'edit',
+      },
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Workspace Manager: Resolve "${conflict.key}" in ${label}`,
+      placeHolder: 'This setting changed in both the workspace file and .vscode/settings.json',
+      ignoreFocusOut: true,
+    });
+    if (!picked) {
+      return false;
+    }
+
+    let value: unknown;
+    if (picked.resolution === 'workspace') {
+      value = conflict.workspaceValue;
+    } else if (picked.resolution === 'folder') {
+      value = conflict.folderValue;
+    } else {
+      const input = await vscode.window.showInputBox({
+        title: `Workspace Manager: New value for "${conflict.key}" (JSON, null to unset)`,
+        value: JSON.stringify(conflict.folderValue ?? conflict.workspaceValue ?? null),
+        ignoreFocusOut: true,
+        validateInput: (text) => {
+          try {
+            JSON.parse(text);
+            return undefined;
+          } catch {
+            return 'Enter a valid JSON value';
+          }
+        },
+      });
+      if (input === undefined) {
+        return false;
+      }
+      // null unsets the setting
+      const parsed = JSON.parse(input) as unknown;
+      value = parsed === null ? undefined : parsed;
+    }
+
+    // Taking the workspace value only touches the folder; otherwise the workspace file records the new value
+    if (picked.resolution !== 'workspace') {
+      await this.workspaceConfig.updateFolderSettings(conflict.folder.path, {
+        [conflict.key]: value === undefined ? null : await this.toFolderSettingsValue(conflict, value),
+      });
+    }
+    await this.writeFolderValue(conflict, value);
+    await this.manifest.setBaseValue(conflict.folder.path, conflict.key, value);
+
+    this.outputChannel.appendLine(`Resolved conflict in ${label}: "${conflict.key}" = ${this.formatValue(value)}`);
+    return true;
+  }
+
+  /**
+   * Convert a value as written to .vscode/settings.json to the value to record in folders[].settings
+   *
+   * As in reverse sync, variable values are mapped back to the variables the workspace value uses, and
+   * arrays merged with union/append/prepend are recorded as additions and removals on top of the
+   * folder's own ones. The manifest base keeps the value as written to settings.json.
+   */
+  private async toFolderSettingsValue(conflict: SettingsConflict, value: unknown): Promise<unknown> {
+    const workspace = await this.workspaceConfig.load();
+    const globalSettings = await this.workspaceConfig.resolveRootSettings(workspace.settings);
+    const strategies = (globalSettings[SETTINGS_KEYS.syncMergeStrategies] as MergeStrategies) ?? {};
+    const folder = workspace.folders.find((f) => f.path === conflict.folder.path) ?? conflict.folder;
+    const folderValue = flattenLanguageOverrides(folder.settings ?? {})[conflict.key];
+
+    // Change against the value the workspace file currently generates (which includes the folder's own value)
+    const change = this.merger.diff({ [conflict.key]: conflict.workspaceValue }, { [conflict.key]: value }, strategies)[
+      conflict.key
+    ];
+    if (change === undefined) {
+      return folderValue ?? value;
+    }
+
+    const template = this.merger.flattenSettings(this.forwardSync.mergeFolderSettings(globalSettings, folder))[
+      conflict.key
+    ];
+    const variables = getFolderVariables(folder, this.workspaceConfig.getWorkspaceDir() ?? '');
+    const unresolved = unresolveVariables(change, template, variables);
+
+    return this.merger.isArrayStrategy(this.merger.getMergeStrategy(conflict.key, strategies))
+      ? this.merger.applyArrayChange(folderValue, unresolved as unknown[])
+      : unresolved;
+  }
+
+  /**
+   * Write a single key (or language block entry) to a folder's .vscode/settings.json (undefined removes it)
+   */
+  private async writeFolderValue(conflict: SettingsConflict, value: unknown): Promise<void> {
+    const resolvedPath = await this.workspaceConfig.resolveFolderPath(conflict.folder.path);
+    const settingsFile = path.join(resolvedPath, '.vscode', 'settings.json');
+
+    const content = await fs.readFile(settingsFile, 'utf-8');
+    const modified = modifyJsonc(content, toSettingsPath(conflict.key), value, detectIndentationStyle(content));
+    await this.workspaceConfig.writeTrackedFile(settingsFile, modified);
+  }
+
+  /**
+   * Format a setting value for display
+   */
+  private formatValue(value: unknown): string {
+    return value === undefined ? '(not set)' : JSON.stringify(value);
+  }
+}
@@ -6,10 +6,18 @@
 
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import * as jsonc from 'jsonc-parser';
 import { WorkspaceConfigService } from './workspaceConfig';
-import { SETTINGS_KEYS, WORKSPACE_MANAGER_PREFIX } from '../types';
+import { SettingsSchemaService, type SettingIssue } from './settingsSchema';
+import { ForwardSyncService } from './forwardSync';
+import { SETTINGS_KEYS, WORKSPACE_MANAGER_PREFIX, type FolderConfig } from '../types';
 import { getQuickFixHint } from '../utils/quickFixHint';
+import { getProfiles } from '../utils/profiles';
+import { getFolderOverrides } from '../utils/folderOverrides';
+import { collectSettingPaths, lintExcludePatterns } from '../utils/excludePatternLint';
+import { isLanguageOverrideKey, toSettingsPath } from '../utils/languageOverrides';
+import { getFolderIgnoredScope } from '../utils/settingScopes';
 
 /**
  * Settings that only work at root level (scope: window)
@@ -17,18 +25,35 @@ import { getQuickFixHint } from '../utils/quickFixHint';
 const ROOT_ONLY_SETTINGS = [
   SETTINGS_KEYS.autoSyncEnabled,
   SETTINGS_KEYS.syncEnabled,
+  SETTINGS_KEYS.extends,
   SETTINGS_KEYS.syncRootSettingsExclude,
   SETTINGS_KEYS.syncSubFolderSettingsDefaults,
+  SETTINGS_KEYS.syncMergeStrategies,
+  SETTINGS_KEYS.syncProfiles,
+  SETTINGS_KEYS.syncFolderOverrides,
+  SETTINGS_KEYS.syncRootLaunchExclude,
+  SETTINGS_KEYS.syncSubFolderLaunchDefaults,
+  SETTINGS_KEYS.syncRootTasksExclude,
+  SETTINGS_KEYS.syncSubFolderTasksDefaults,
 ];
 
 export class DiagnosticsService {
   private diagnosticCollection: vscode.DiagnosticCollection;
   private workspaceConfig: WorkspaceConfigService;
+  private settingsSchema: SettingsSchemaService;
+  private forwardSync: ForwardSyncService;
   private outputChannel: vscode.OutputChannel;
 
-  constructor(workspaceConfig: WorkspaceConfigService, outputChannel: vscode.OutputChannel) {
+  constructor(
+    workspaceConfig: WorkspaceConfigService,
+    settingsSchema: SettingsSchemaService,
+    forwardSync: ForwardSyncService,
+    outputChannel: vscode.OutputChannel
+  ) {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('workspaceManager');
     this.workspaceConfig = workspaceConfig;
+    this.settingsSchema = settingsSchema;
+    this.forwardSync = forwardSync;
     this.outputChannel = outputChannel;
   }
 
@@ -87,15 +112,43 @@ export class DiagnosticsService {
     };
     const rootSettings = workspaceData?.settings ?? {};
 
+    // Check for missing or unparsable files in workspaceManager.extends (Error)
+    await this.checkExtendedFiles(rootNode, text, diagnostics, openDocument);
+
     // Check for workspaceManager.* settings in subFolderSettings.defaults (Error)
     this.checkWmSettingsInDefaults(rootNode, text, diagnostics, quickFixHint, openDocument);
 
+    // Validate root settings and subFolderSettings.defaults against extension configuration schemas
+    this.checkSettingsSchema(rootNode, text, ['settings'], diagnostics, openDocument);
+    this.checkSettingsSchema(
+      rootNode,
+      text,
+      ['settings', SETTINGS_KEYS.syncSubFolderSettingsDefaults],
+      diagnostics,
+      openDocument
+    );
+
+    // Check for settings in subFolderSettings.defaults that VS Code ignores in folder settings (Warning)
+    this.checkFolderIgnoredScopes(
+      rootNode,
+      text,
+      ['settings', SETTINGS_KEYS.syncSubFolderSettingsDefaults],
+      diagnostics,
+      openDocument
+    );
+
+    // Check for invalid, unused and redundant exclude patterns
+    await this.checkExcludePatterns(rootNode, text, workspaceData, diagnostics, openDocument);
+
     // Check for autoSync enabled with forward sync disabled (Hint)
     this.checkAutoSyncWithForwardDisabled(rootNode, text, workspaceData, diagnostics, openDocument);
 
     // Check for reverseSync exclude patterns when reverseSync is disabled at root level
     this.checkReverseSyncExcludeAtRoot(rootNode, text, workspaceData, diagnostics, quickFixHint, openDocument);
 
+    // Root settings with extended files layered underneath (what folders inherit from)
+    const resolvedRootSettings = await this.workspaceConfig.resolveRootSettings(rootSettings);
+
     // Check each folder
     for (let i = 0; i < foldersNode.children.length; i++) {
       const folderNode = foldersNode.children[i];
@@ -158,11 +211,363 @@ export class DiagnosticsService {
         quickFixHint,
         openDocument
       );
+
+      // Check for profile names not defined in root sync.profiles (Warning)
+      this.checkUnknownProfiles(rootNode, text, i, rootSettings, diagnostics, openDocument);
+
+      // Check for folder settings identical to what the folder inherits (Hint)
+      if (!isRoot && workspaceData?.folders?.[i]) {
+        this.checkRedundantOverrides(
+          rootNode,
+          text,
+          i,
+          workspaceData.folders[i] as FolderConfig,
+          resolvedRootSettings,
+          diagnostics,
+          openDocument
+        );
+      }
+
+      // Check for settings that VS Code ignores in folder settings (Warning)
+      this.checkFolderIgnoredScopes(rootNode, text, ['folders', i, 'settings'], diagnostics, openDocument);
+
+      // Validate folder settings against extension configuration schemas
+      this.checkSettingsSchema(rootNode, text, ['folders', i, 'settings'], diagnostics, openDocument);
     }
 
     return diagnostics;
   }
 
+  /**
+   * Check for missing or unparsable files listed in root workspaceManager.extends (Error)
+   */
+  private async checkExtendedFiles(
+    rootNode: jsonc.Node,
+    text: string,
+    diagnostics: vscode.Diagnostic[],
+    document?: vscode.TextDocument
+  ): Promise<void> {
+    const extendsNode = jsonc.findNodeAtLocation(rootNode, ['settings', SETTINGS_KEYS.extends]);
+    if (!extendsNode || extendsNode.type !== 'array' || !extendsNode.children) {
+      return;
+    }
+
+    for (const entryNode of extendsNode.children) {
+      if (entryNode.type !== 'string') {
+        continue;
+      }
+
+      const file = await this.workspaceConfig.readExtendedFile(entryNode.value as string);
+      if (!file.error) {
+        continue;
+      }
+
+      const range = this.propertyToRange(text, entryNode, document);
+      const message =
+        file.error === 'missing'
+          ? `Extended settings file not found: ${file.filePath}`
+          : `Extended settings file could not be parsed (${file.message}): ${file.filePath}`;
+      const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
+      diagnostic.source = 'Workspace Manager';
+      diagnostic.code = file.error === 'missing' ? 'extends-missing' : 'extends-invalid';
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  /**
+   * Validate a settings block against the configuration schemas of installed extensions
+   *
+   * Reports unknown keys (Warning when a key differs only in case from a known one, Information
+   * otherwise, as the contributing extension may just not be installed), wrong types and enum
+   * values (Warning) and deprecated settings (Warning). Entries of language blocks are validated
+   * individually; workspaceManager.* keys are covered by the other checks.
+   */
+  private checkSettingsSchema(
+    rootNode: jsonc.Node,
+    text: string,
+    settingsPath: jsonc.JSONPath,
+    diagnostics: vscode.Diagnostic[],
+    document?: vscode.TextDocument
+  ): void {
+    const settingsNode = jsonc.findNodeAtLocation(rootNode, settingsPath);
+    if (!settingsNode || settingsNode.type !== 'object' || !settingsNode.children) {
+      return;
+    }
+
+    const validateProperty = (propertyNode: jsonc.Node) => {
+      const [keyNode, valueNode] = propertyNode.children ?? [];
+      if (!keyNode || !valueNode || typeof keyNode.value !== 'string') {
+        return;
+      }
+
+      const key = keyNode.value;
+      for (const issue of this.settingsSchema.validate(key, jsonc.getNodeValue(valueNode))) {
+        // Type and value problems point at the value, unknown and deprecated keys at the whole property
+        const isValueIssue = issue.code === 'invalid-setting-type' || issue.code === 'invalid-setting-value';
+        const range = this.propertyToRange(text, isValueIssue ? valueNode : propertyNode, document);
+        const diagnostic = new vscode.Diagnostic(range, issue.message, this.getSchemaIssueSeverity(issue));
+        if (issue.code === 'deprecated-setting') {
+          diagnostic.tags = [vscode.DiagnosticTag.Deprecated];
+        }
+        diagnostic.source = 'Workspace Manager';
+        diagnostic.code = issue.code;
+        diagnostics.push(diagnostic);
+      }
+    };
+
+    for (const child of settingsNode.children) {
+      const [keyNode, valueNode] = child.children ?? [];
+      if (child.type !== 'property' || !keyNode || typeof keyNode.value !== 'string') {
+        continue;
+      }
+
+      const key = keyNode.value;
+      if (key.startsWith(WORKSPACE_MANAGER_PREFIX)) {
+        continue;
+      }
+      if (isLanguageOverrideKey(key)) {
+        if (valueNode?.type === 'object') {
+          valueNode.children?.forEach(validateProperty);
+        }
+        continue;
+      }
+      validateProperty(child);
+    }
+  }
+
+  /**
+   * Check for settings registered with application, machine or window scope in a block that is
+   * synced to folder settings (Warning). VS Code ignores them there, so sync skips them.
+   */
+  private checkFolderIgnoredScopes(
+    rootNode: jsonc.Node,
+    text: string,
+    settingsPath: jsonc.JSONPath,
+    diagnostics: vscode.Diagnostic[],
+    document?: vscode.TextDocument
+  ): void {
+    const settingsNode = jsonc.findNodeAtLocation(rootNode, settingsPath);
+    if (!settingsNode || settingsNode.type !== 'object' || !settingsNode.children) {
+      return;
+    }
+
+    const getScope = (key: string) => this.settingsSchema.getScope(key);
+    const checkProperty = (propertyNode: jsonc.Node) => {
+      const keyNode = propertyNode.children?.[0];
+      if (propertyNode.type !== 'property' || !keyNode || typeof keyNode.value !== 'string') {
+        return;
+      }
+
+      const key = keyNode.value;
+      const scope = key.startsWith(WORKSPACE_MANAGER_PREFIX) ? undefined : getFolderIgnoredScope(key, getScope);
+      if (!scope) {
+        return;
+      }
+
+      const range = this.propertyToRange(text, propertyNode, document);
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        `"${key}" is a ${scope}-scoped setting. VS Code ignores it in folder settings, so it is not synced.`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'Workspace Manager';
+      diagnostic.code = 'folder-ignored-scope';
+      diagnostics.push(diagnostic);
+    };
+
+    for (const child of settingsNode.children) {
+      const [keyNode, valueNode] = child.children ?? [];
+      if (keyNode && typeof keyNode.value === 'string' && isLanguageOverrideKey(keyNode.value)) {
+        if (valueNode?.type === 'object') {
+          valueNode.children?.forEach(checkProperty);
+        }
+        continue;
+      }
+      checkProperty(child);
+    }
+  }
+
+  /**
+   * Severity of a schema validation issue
+   */
+  private getSchemaIssueSeverity(issue: SettingIssue): vscode.DiagnosticSeverity {
+    if (issue.code === 'unknown-setting' && !issue.suggestion) {
+      return vscode.DiagnosticSeverity.Information;
+    }
+    return vscode.DiagnosticSeverity.Warning;
+  }
+
+  /**
+   * Check the entries of sync.rootSettings.exclude and reverseSync.folderSettings.exclude (root and
+   * per folder) against the settings keys in use: every settings block of the workspace file, extended
+   * files and the folders' .vscode/settings.json.
+   *
+   * Broken globs are reported as Warning; patterns matching no setting, negations re-including nothing
+   * and patterns made redundant by another entry as Hint.
+   */
+  private async checkExcludePatterns(
+    rootNode: jsonc.Node,
+    text: string,
+    workspaceData: {
+      folders?: Array<{ path: string; settings?: Record<string, unknown> }>;
+      settings?: Record<string, unknown>;
+    },
+    diagnostics: vscode.Diagnostic[],
+    document?: vscode.TextDocument
+  ): Promise<void> {
+    const patternLists: jsonc.JSONPath[] = [
+      ['settings', SETTINGS_KEYS.syncRootSettingsExclude],
+      ['settings', SETTINGS_KEYS.reverseSyncFolderSettingsExclude],
+      ...(workspaceData?.folders ?? []).map((_, i) => [
+        'folders',
+        i,
+        'settings',
+        SETTINGS_KEYS.reverseSyncFolderSettingsExclude,
+      ]),
+    ];
+    const listNodes = patternLists
+      .map((listPath) => jsonc.findNodeAtLocation(rootNode, listPath))
+      .filter((node): node is jsonc.Node => node?.type === 'array' && !!node.children?.length);
+    if (listNodes.length === 0) {
+      return;
+    }
+
+    const keys = await this.collectSettingKeysInUse(workspaceData);
+
+    for (const listNode of listNodes) {
+      const entryNodes = listNode.children!;
+      const patterns = entryNodes.map((node) => jsonc.getNodeValue(node) as unknown);
+
+      for (const issue of lintExcludePatterns(patterns, keys)) {
+        const range = this.propertyToRange(text, entryNodes[issue.index], document);
+        const isInvalid = issue.code === 'exclude-pattern-invalid';
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          issue.message,
+          isInvalid ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Hint
+        );
+        if (!isInvalid) {
+          diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        }
+        diagnostic.source = 'Workspace Manager';
+        diagnostic.code = issue.code;
+        diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  /**
+   * Collect the settings keys (and nested paths) exclude patterns can apply to
+   */
+  private async collectSettingKeysInUse(workspaceData: {
+    folders?: Array<{ path: string; settings?: Record<string, unknown> }>;
+    settings?: Record<string, unknown>;
+  }): Promise<string[]> {
+    const rootSettings = await this.workspaceConfig.resolveRootSettings(workspaceData?.settings ?? {});
+    const blocks: Record<string, unknown>[] = [
+      rootSettings,
+      (rootSettings[SETTINGS_KEYS.syncSubFolderSettingsDefaults] as Record<string, unknown>) ?? {},
+      ...Object.values(getProfiles(rootSettings)),
+      ...Object.values(getFolderOverrides(rootSettings)),
+    ];
+
+    for (const folder of workspaceData?.folders ?? []) {
+      blocks.push(folder.settings ?? {});
+
+      try {
+        const folderDir = await this.workspaceConfig.resolveFolderPath(folder.path);
+        const content = await fs.readFile(path.join(folderDir, '.vscode', 'settings.json'), 'utf-8');
+        const settings = jsonc.parse(content) as unknown;
+        if (typeof settings === 'object' && settings !== null && !Array.isArray(settings)) {
+          blocks.push(settings as Record<string, unknown>);
+        }
+      } catch {
+        // No settings.json in this folder
+      }
+    }
+
+    return blocks.flatMap((block) =>
+      collectSettingPaths(block).filter((key) => !key.startsWith(WORKSPACE_MANAGER_PREFIX))
+    );
+  }
+
+  /**
+   * Check for folders[].settings entries that don't change the folder's settings (Hint):
+   * values equal to the inherited ones and nulls unsetting a key nothing sets
+   */
+  private checkRedundantOverrides(
+    rootNode: jsonc.Node,
+    text: string,
+    folderIndex: number,
+    folder: FolderConfig,
+    resolvedRootSettings: Record<string, unknown>,
+    diagnostics: vscode.Diagnostic[],
+    document?: vscode.TextDocument
+  ): void {
+    for (const key of this.forwardSync.findRedundantOverrides(resolvedRootSettings, folder)) {
+      // findNodeAtLocation returns the VALUE node, its parent is the property node
+      const valueNode = jsonc.findNodeAtLocation(rootNode, [
+        'folders',
+        folderIndex,
+        'settings',
+        ...toSettingsPath(key),
+      ]);
+      if (!valueNode || !valueNode.parent) {
+        continue;
+      }
+
+      const range = this.propertyToRange(text, valueNode.parent, document);
+      const message =
+        valueNode.type === 'null'
+          ? `"${key}" is set to null, but no inherited setting defines it. The entry can be removed.`
+          : `"${key}" has the same value the folder inherits. The entry can be removed.`;
+      const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Hint);
+      diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      diagnostic.source = 'Workspace Manager';
+      diagnostic.code = 'redundant-override';
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  /**
+   * Check for folder profile names that are not defined in root sync.profiles (Warning)
+   */
+  private checkUnknownProfiles(
+    rootNode: jsonc.Node,
+    text: string,
+    folderIndex: number,
+    rootSettings: Record<string, unknown>,
+    diagnostics: vscode.Diagnostic[],
+    document?: vscode.TextDocument
+  ): void {
+    const profilesNode = jsonc.findNodeAtLocation(rootNode, [
+      'folders',
+      folderIndex,
+      'settings',
+      SETTINGS_KEYS.folderProfiles,
+    ]);
+    if (!profilesNode || profilesNode.type !== 'array' || !profilesNode.children) {
+      return;
+    }
+
+    const profiles = getProfiles(rootSettings);
+    for (const nameNode of profilesNode.children) {
+      if (nameNode.type !== 'string' || Object.hasOwn(profiles, nameNode.value as string)) {
+        continue;
+      }
+
+      const range = this.propertyToRange(text, nameNode, document);
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        `Unknown profile "${nameNode.value}". Define it in root "${SETTINGS_KEYS.syncProfiles}".`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'Workspace Manager';
+      diagnostic.code = 'unknown-profile';
+      diagnostics.push(diagnostic);
+    }
+  }
+
   /**
    * Check for root-only settings placed in folder settings (Warning)
    */
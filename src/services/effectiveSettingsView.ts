@@ -0,0 +1,199 @@
+/**
+ * Effective settings view
+ *
+ * Explorer tree listing each folder with the settings forward sync generates for it,
+ * annotated with the layer each key comes from. Clicking a key reveals its definition.
+ */
+
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { getSourceLabel, SettingsProvenanceService } from './settingsProvenance';
+import { getOverrideLanguages, isLanguageOverrideKey } from '../utils/languageOverrides';
+import { SETTINGS_KEYS, type FolderConfig, type SettingLocation, type SettingProvenance } from '../types';
+
+/**
+ * View ID (contributes.views in package.json)
+ */
+export const EFFECTIVE_SETTINGS_VIEW = 'workspaceManager.effectiveSettings';
+
+/**
+ * Command revealing the definition of a setting
+ */
+export const REVEAL_SETTING_COMMAND = 'workspaceManager.revealSettingSource';
+
+type EffectiveSettingsNode =
+  | { kind: 'folder'; folder: FolderConfig; settings: SettingProvenance[] }
+  | { kind: 'setting'; setting: SettingProvenance };
+
+const MAX_VALUE_LENGTH = 60;
+
+const SOURCE_ICONS: Record<SettingProvenance['source'], string> = {
+  extends: 'file-symlink-file',
+  root: 'root-folder',
+  defaults: 'settings-gear',
+  profile: 'layers',
+  folderOverride: 'filter',
+  folder: 'folder',
+};
+
+export class EffectiveSettingsViewProvider implements vscode.TreeDataProvider<EffectiveSettingsNode> {
+  private provenance: SettingsProvenanceService;
+  private outputChannel: vscode.OutputChannel;
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(provenance: SettingsProvenanceService, outputChannel: vscode.OutputChannel) {
+    this.provenance = provenance;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Recompute the tree (e.g. after the workspace file changed or a sync ran)
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  async getChildren(node?: EffectiveSettingsNode): Promise<EffectiveSettingsNode[]> {
+    if (node?.kind === 'folder') {
+      return node.settings.map((setting) => ({ kind: 'setting', setting }));
+    }
+    if (node) {
+      return [];
+    }
+
+    try {
+      const folders = await this.provenance.explainAll();
+      return folders.map(({ folder, settings }) => ({ kind: 'folder', folder, settings }));
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Effective settings view error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+  }
+
+  getTreeItem(node: EffectiveSettingsNode): vscode.TreeItem {
+    if (node.kind === 'folder') {
+      const item = new vscode.TreeItem(node.folder.name || node.folder.path, vscode.TreeItemCollapsibleState.Collapsed);
+      item.description = node.folder.name ? node.folder.path : undefined;
+      item.iconPath = new vscode.ThemeIcon('folder');
+      item.contextValue = 'folder';
+      return item;
+    }
+
+    const { setting } = node;
+    const item = new vscode.TreeItem(setting.key, vscode.TreeItemCollapsibleState.None);
+    item.description = this.describe(setting);
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `**${setting.key}**`,
+        setting.status === 'set' ? `\`\`\`json\n${JSON.stringify(setting.value, null, 2)}\n\`\`\`` : '',
+        this.explain(setting),
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+    );
+    item.iconPath =
+      setting.status === 'excluded'
+        ? new vscode.ThemeIcon('eye-closed')
+        : setting.status === 'unset'
+          ? new vscode.ThemeIcon('circle-slash')
+          : new vscode.ThemeIcon(SOURCE_ICONS[setting.source]);
+    item.contextValue = `setting.${setting.status}`;
+    item.command = {
+      command: REVEAL_SETTING_COMMAND,
+      title: 'Reveal Setting Source',
+      arguments: [setting.location],
+    };
+    return item;
+  }
+
+  /**
+   * Short description shown next to the key
+   */
+  private describe(setting: SettingProvenance): string {
+    switch (setting.status) {
+      case 'excluded':
+        return `excluded by "${setting.excludedBy}"`;
+      case 'unset':
+        return `unset · ${getSourceLabel(setting.source, setting.detail)}`;
+      case 'set': {
+        const value = JSON.stringify(setting.value) ?? 'undefined';
+        const shortValue = value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH - 1)}…` : value;
+        return `${shortValue} · ${getSourceLabel(setting.source, setting.detail)}`;
+      }
+    }
+  }
+
+  /**
+   * Sentence explaining where a setting comes from (tooltip)
+   */
+  private explain(setting: SettingProvenance): string {
+    switch (setting.status) {
+      case 'excluded':
+        return `Inherited from ${getSourceLabel(setting.source, setting.detail)}, but not synced: excluded by \`${setting.excludedBy}\` in \`${SETTINGS_KEYS.syncRootSettingsExclude}\`.`;
+      case 'unset':
+        return `Removed with \`null\` in ${getSourceLabel(setting.source, setting.detail)}.`;
+      case 'set':
+        return `Set by ${getSourceLabel(setting.source, setting.detail)}.`;
+    }
+  }
+
+  /**
+   * Open the file defining a setting and select its property
+   *
+   * Language entries written under a multi-language header ("[typescript][javascript]")
+   * are found through the header containing the language.
+   */
+  async revealLocation(location: SettingLocation): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(location.filePath));
+    const editor = await vscode.window.showTextDocument(document, { preview: true });
+
+    const rootNode = jsonc.parseTree(document.getText());
+    const node = rootNode ? this.findClosestNode(rootNode, location.path) : undefined;
+    if (!node) {
+      return;
+    }
+
+    const range = new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+    editor.selection = new vscode.Selection(range.start, range.end);
+    editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  /**
+   * Find the property node at a JSON path, or the closest existing parent
+   */
+  private findClosestNode(rootNode: jsonc.Node, jsonPath: (string | number)[]): jsonc.Node {
+    let node = rootNode;
+
+    for (const segment of jsonPath) {
+      let next = jsonc.findNodeAtLocation(node, [segment]);
+
+      if (!next && typeof segment === 'string' && isLanguageOverrideKey(segment) && node.children) {
+        const [language] = getOverrideLanguages(segment);
+        const header = node.children.find((property) => {
+          const key = property.children?.[0]?.value;
+          return typeof key === 'string' && isLanguageOverrideKey(key) && getOverrideLanguages(key).includes(language);
+        });
+        next = header?.children?.[1];
+      }
+
+      if (!next) {
+        break;
+      }
+      node = next;
+    }
+
+    // Select the whole "key": value property where there is one
+    return node.parent?.type === 'property' ? node.parent : node;
+  }
+
+  /**
+   * Dispose the event emitter
+   */
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
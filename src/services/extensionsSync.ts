@@ -0,0 +1,269 @@
+/**
+ * Extensions sync service
+ *
+ * Generates .vscode/extensions.json files from root extension recommendations
+ * merged with folders[].extensions, and syncs recommendations added to a
+ * folder's extensions.json back to the workspace file.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { WorkspaceConfigService } from './workspaceConfig';
+import { detectIndentationStyle, modifyJsonc } from '../utils/jsoncFormatting';
+import { SETTINGS_KEYS, type ExtensionRecommendations, type FolderConfig, type WorkspaceFile } from '../types';
+
+export class ExtensionsSyncService {
+  private workspaceConfig: WorkspaceConfigService;
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(workspaceConfig: WorkspaceConfigService, outputChannel: vscode.OutputChannel) {
+    this.workspaceConfig = workspaceConfig;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Write merged recommendations to every folder's .vscode/extensions.json
+   *
+   * Merge order: root extensions → folders[].extensions (folder unwanted entries drop inherited recommendations)
+   *
+   * @returns Number of folders whose extensions.json changed
+   */
+  async sync(): Promise<number> {
+    const workspace = await this.workspaceConfig.load();
+
+    // Forward sync of recommendations follows sync.enabled
+    if (workspace.settings[SETTINGS_KEYS.syncEnabled] === false) {
+      return 0;
+    }
+
+    let syncedCount = 0;
+
+    for (const folder of workspace.folders) {
+      // Nothing to generate if neither root nor folder define recommendations
+      if (!workspace.extensions && !folder.extensions) {
+        continue;
+      }
+
+      // Skip root folder (comparing resolved paths)
+      if (await this.workspaceConfig.isWorkspaceRoot(folder.path)) {
+        continue;
+      }
+
+      try {
+        const expected = this.calculateExpectedRecommendations(workspace, folder);
+        const wasChanged = await this.writeExtensionsJson(folder.path, expected);
+
+        if (wasChanged) {
+          this.outputChannel.appendLine(
+            `Synced extension recommendations to ${folder.name || folder.path}/.vscode/extensions.json`
+          );
+          syncedCount++;
+        }
+      } catch (error) {
+        this.outputChannel.appendLine(
+          `Error syncing extensions for ${folder.name || folder.path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return syncedCount;
+  }
+
+  /**
+   * Sync a folder's .vscode/extensions.json back to folders[].extensions
+   *
+   * Recommendations added in the folder (e.g. via "Add to Workspace Recommendations") are recorded
+   * for that folder. Folder-own recommendations removed from the file are removed from the folder entry.
+   *
+   * @param folderPath - The relative folder path
+   */
+  async syncFolderToWorkspace(folderPath: string): Promise<boolean> {
+    try {
+      const workspace = await this.workspaceConfig.load();
+      const folderIndex = workspace.folders.findIndex((f) => f.path === folderPath);
+      const folder = workspace.folders[folderIndex];
+
+      if (!folder || (await this.workspaceConfig.isWorkspaceRoot(folderPath))) {
+        return false;
+      }
+
+      // Reverse sync of recommendations follows reverseSync.enabled (folder setting has precedence over root)
+      const isEnabled =
+        folder.settings?.[SETTINGS_KEYS.reverseSyncEnabled] ??
+        workspace.settings[SETTINGS_KEYS.reverseSyncEnabled] ??
+        true;
+      if (!isEnabled) {
+        return false;
+      }
+
+      const current = await this.readExtensionsJson(folderPath);
+      if (!current) {
+        return false;
+      }
+
+      const expected = this.calculateExpectedRecommendations(workspace, folder);
+      const updated = this.applyFolderChanges(folder, expected, current);
+
+      if (JSON.stringify(updated) === JSON.stringify(folder.extensions ?? {})) {
+        return false;
+      }
+
+      workspace.folders[folderIndex] = { ...folder, extensions: updated };
+      await this.workspaceConfig.save(workspace);
+
+      this.outputChannel.appendLine(`Reverse synced extension recommendations from ${folder.name || folderPath}`);
+      return true;
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Error in extensions reverse sync for ${folderPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Calculate the recommendations forward sync generates for a folder
+   */
+  private calculateExpectedRecommendations(workspace: WorkspaceFile, folder: FolderConfig): ExtensionRecommendations {
+    const root = workspace.extensions ?? {};
+    const own = folder.extensions ?? {};
+
+    const ownRecommendations = own.recommendations ?? [];
+    const ownUnwanted = own.unwantedRecommendations ?? [];
+
+    const recommendations = this.unique([...(root.recommendations ?? []), ...ownRecommendations]).filter(
+      (id) => !this.includesId(ownUnwanted, id)
+    );
+    const unwantedRecommendations = this.unique([...(root.unwantedRecommendations ?? []), ...ownUnwanted]).filter(
+      (id) => !this.includesId(ownRecommendations, id)
+    );
+
+    const result: ExtensionRecommendations = { recommendations };
+    if (unwantedRecommendations.length > 0) {
+      result.unwantedRecommendations = unwantedRecommendations;
+    }
+    return result;
+  }
+
+  /**
+   * Apply additions and removals found in a folder's extensions.json to its folders[].extensions
+   */
+  private applyFolderChanges(
+    folder: FolderConfig,
+    expected: ExtensionRecommendations,
+    current: ExtensionRecommendations
+  ): ExtensionRecommendations {
+    const result: ExtensionRecommendations = {
+      recommendations: [...(folder.extensions?.recommendations ?? [])],
+      unwantedRecommendations: [...(folder.extensions?.unwantedRecommendations ?? [])],
+    };
+
+    for (const field of ['recommendations', 'unwantedRecommendations'] as const) {
+      const expectedIds = expected[field] ?? [];
+      const currentIds = current[field] ?? [];
+      const ownIds = result[field] ?? [];
+
+      // Added in the folder file
+      for (const id of currentIds) {
+        if (!this.includesId(expectedIds, id) && !this.includesId(ownIds, id)) {
+          ownIds.push(id);
+        }
+      }
+
+      // Removed from the folder file - only folder-own entries can be removed here
+      for (const id of expectedIds) {
+        if (!this.includesId(currentIds, id)) {
+          const index = ownIds.findIndex((ownId) => ownId.toLowerCase() === id.toLowerCase());
+          if (index !== -1) {
+            ownIds.splice(index, 1);
+          } else {
+            this.outputChannel.appendLine(
+              `"${id}" was removed from ${folder.name || folder.path}/.vscode/extensions.json but is inherited from root extensions`
+            );
+          }
+        }
+      }
+
+      result[field] = ownIds;
+    }
+
+    // Drop empty lists to keep the workspace file tidy
+    if (result.recommendations?.length === 0) {
+      delete result.recommendations;
+    }
+    if (result.unwantedRecommendations?.length === 0) {
+      delete result.unwantedRecommendations;
+    }
+    return result;
+  }
+
+  /**
+   * Read a folder's .vscode/extensions.json
+   */
+  private async readExtensionsJson(folderPath: string): Promise<ExtensionRecommendations | null> {
+    try {
+      const resolvedPath = await this.workspaceConfig.resolveFolderPath(folderPath);
+      const content = await fs.readFile(path.join(resolvedPath, '.vscode', 'extensions.json'), 'utf-8');
+      return (jsonc.parse(content) as ExtensionRecommendations | undefined) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write recommendations to a folder's .vscode/extensions.json
+   *
+   * Existing files are edited in place so comments and other keys are preserved.
+   *
+   * @returns true if the file was changed, false if content was identical
+   */
+  private async writeExtensionsJson(folderPath: string, expected: ExtensionRecommendations): Promise<boolean> {
+    const resolvedPath = await this.workspaceConfig.resolveFolderPath(folderPath);
+    const extensionsFile = path.join(resolvedPath, '.vscode', 'extensions.json');
+
+    let existingContent: string | null = null;
+    try {
+      existingContent = await fs.readFile(extensionsFile, 'utf-8');
+    } catch {
+      // File doesn't exist, will be created
+    }
+
+    if (existingContent === null) {
+      return this.workspaceConfig.writeTrackedFile(extensionsFile, JSON.stringify(expected, null, 4) + '\n');
+    }
+
+    const existing = (jsonc.parse(existingContent) as ExtensionRecommendations | undefined) ?? {};
+    const formattingOptions = detectIndentationStyle(existingContent);
+    let newContent = existingContent;
+
+    for (const field of ['recommendations', 'unwantedRecommendations'] as const) {
+      if (JSON.stringify(existing[field]) !== JSON.stringify(expected[field])) {
+        newContent = modifyJsonc(newContent, [field], expected[field], formattingOptions);
+      }
+    }
+
+    return this.workspaceConfig.writeTrackedFile(extensionsFile, newContent);
+  }
+
+  /**
+   * Remove duplicate extension IDs (case-insensitive, keeps first occurrence)
+   */
+  private unique(ids: string[]): string[] {
+    const result: string[] = [];
+    for (const id of ids) {
+      if (!this.includesId(result, id)) {
+        result.push(id);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check if an extension ID is in a list (extension IDs are case-insensitive)
+   */
+  private includesId(ids: string[], id: string): boolean {
+    return ids.some((other) => other.toLowerCase() === id.toLowerCase());
+  }
+}
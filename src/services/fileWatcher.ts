@@ -1,45 +1,75 @@
 /**
  * File watcher service
  *
- * Watches workspace and folder settings files for changes
- * with debouncing and sync loop prevention.
+ * Watches workspace, extended settings, folder settings, extension recommendations and
+ * launch/tasks files for changes with debouncing and sync loop prevention.
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ForwardSyncService } from './forwardSync';
 import { ReverseSyncService } from './reverseSync';
+import { ExtensionsSyncService } from './extensionsSync';
+import { LaunchTasksSyncService } from './launchTasksSync';
 import { WorkspaceConfigService } from './workspaceConfig';
 import { DiagnosticsService } from './diagnostics';
+import { SyncHistoryService } from './syncHistory';
 import { SETTINGS_KEYS } from '../types';
 
 export class FileWatcherService {
   private workspaceConfig: WorkspaceConfigService;
   private forwardSync: ForwardSyncService;
   private reverseSync: ReverseSyncService;
+  private extensionsSync: ExtensionsSyncService;
+  private launchTasksSync: LaunchTasksSyncService;
   private diagnosticsService: DiagnosticsService;
+  private syncHistory: SyncHistoryService;
   private outputChannel: vscode.OutputChannel;
 
   private isForwardSyncing = false;
   private isReverseSyncing = false;
-  private debounceTimeout: NodeJS.Timeout | null = null;
+  private debounceTimeouts = new Map<string, NodeJS.Timeout>();
+  private syncQueue: Promise<void> = Promise.resolve();
   private debounceMs = 300;
 
   private disposables: vscode.Disposable[] = [];
+  private extendsWatchers: vscode.Disposable[] = [];
   private isWatching = false;
+  private watchingEmitter = new vscode.EventEmitter<boolean>();
+
+  /**
+   * Fired when watching starts (true) or stops (false), i.e. when auto-sync is turned on or off
+   */
+  readonly onDidChangeWatching = this.watchingEmitter.event;
+
+  private settingsFilesEmitter = new vscode.EventEmitter<void>();
+  private settingsFilesWatcher: vscode.Disposable;
+
+  /**
+   * Fired (debounced) when the workspace file or a folder .vscode/settings.json changes,
+   * whether or not auto-sync is enabled
+   */
+  readonly onDidChangeSettingsFiles = this.settingsFilesEmitter.event;
 
   constructor(
     workspaceConfig: WorkspaceConfigService,
     forwardSync: ForwardSyncService,
     reverseSync: ReverseSyncService,
+    extensionsSync: ExtensionsSyncService,
+    launchTasksSync: LaunchTasksSyncService,
     diagnosticsService: DiagnosticsService,
+    syncHistory: SyncHistoryService,
     outputChannel: vscode.OutputChannel
   ) {
     this.workspaceConfig = workspaceConfig;
     this.forwardSync = forwardSync;
     this.reverseSync = reverseSync;
+    this.extensionsSync = extensionsSync;
+    this.launchTasksSync = launchTasksSync;
     this.diagnosticsService = diagnosticsService;
+    this.syncHistory = syncHistory;
     this.outputChannel = outputChannel;
+    this.settingsFilesWatcher = this.watchSettingsFilesForChanges();
   }
 
   /**
@@ -58,8 +88,16 @@ export class FileWatcherService {
     // Watch folder settings files
     this.disposables.push(this.watchFolderSettings());
 
+    // Watch folder extensions.json, launch.json and tasks.json files
+    this.disposables.push(this.watchFolderConfigurationFiles());
+
     this.isWatching = true;
+
+    // Watch shared settings files from workspaceManager.extends
+    void this.watchExtendedFiles();
+
     this.outputChannel.appendLine('File watchers started');
+    this.watchingEmitter.fire(true);
   }
 
   /**
@@ -76,14 +114,16 @@ export class FileWatcherService {
       disposable.dispose();
     }
     this.disposables = [];
+    this.disposeExtendsWatchers();
 
-    if (this.debounceTimeout) {
-      clearTimeout(this.debounceTimeout);
-      this.debounceTimeout = null;
+    for (const timeout of this.debounceTimeouts.values()) {
+      clearTimeout(timeout);
     }
+    this.debounceTimeouts.clear();
 
     this.isWatching = false;
     this.outputChannel.appendLine('File watchers stopped');
+    this.watchingEmitter.fire(false);
   }
 
   /**
@@ -98,6 +138,24 @@ export class FileWatcherService {
    */
   dispose(): void {
     this.stopWatching();
+    this.settingsFilesWatcher.dispose();
+    this.watchingEmitter.dispose();
+    this.settingsFilesEmitter.dispose();
+  }
+
+  /**
+   * Watch the workspace file and folder settings files to report changes (no syncing)
+   */
+  private watchSettingsFilesForChanges(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher('{**/*.code-workspace,**/.vscode/settings.json}');
+    const onChange = () => this.debounce('settingsFiles', () => this.settingsFilesEmitter.fire());
+
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidChange(onChange),
+      watcher.onDidCreate(onChange),
+      watcher.onDidDelete(onChange)
+    );
   }
 
   /**
@@ -110,6 +168,9 @@ export class FileWatcherService {
       // Always update diagnostics when workspace file changes
       await this.diagnosticsService.validate();
 
+      // The list of extended files may have changed
+      void this.watchExtendedFiles();
+
       // Skip sync if we're currently doing a reverse sync (we caused this change)
       if (this.isReverseSyncing) {
         this.outputChannel.appendLine('Workspace file change detected, but skipping sync (reverse sync in progress)');
@@ -117,12 +178,64 @@ export class FileWatcherService {
       }
 
       this.outputChannel.appendLine('Workspace file change detected');
-      this.debounce(() => this.triggerForwardSync());
+      this.debounce('forward', () => this.enqueueSync(() => this.triggerForwardSync()));
     };
 
     return vscode.Disposable.from(watcher, watcher.onDidChange(onChange), watcher.onDidCreate(onChange));
   }
 
+  /**
+   * Watch the shared settings files listed in workspaceManager.extends
+   *
+   * The watchers are re-created whenever the workspace file changes. Files outside the
+   * workspace folders are watched too (each by its own pattern).
+   */
+  private async watchExtendedFiles(): Promise<void> {
+    let filePaths: string[];
+    try {
+      const workspace = await this.workspaceConfig.load();
+      filePaths = (await this.workspaceConfig.loadExtendedSettings(workspace.settings)).map((file) => file.filePath);
+    } catch {
+      return;
+    }
+
+    this.disposeExtendsWatchers();
+    if (!this.isWatching) {
+      return;
+    }
+
+    const onChange = async (uri: vscode.Uri) => {
+      await this.diagnosticsService.validate();
+
+      this.outputChannel.appendLine(`Extended settings file change detected: ${uri.fsPath}`);
+      this.debounce('forward', () => this.enqueueSync(() => this.triggerForwardSync()));
+    };
+
+    for (const filePath of new Set(filePaths)) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(path.dirname(filePath)), path.basename(filePath))
+      );
+      this.extendsWatchers.push(
+        vscode.Disposable.from(
+          watcher,
+          watcher.onDidChange(onChange),
+          watcher.onDidCreate(onChange),
+          watcher.onDidDelete(onChange)
+        )
+      );
+    }
+  }
+
+  /**
+   * Dispose the watchers of extended settings files
+   */
+  private disposeExtendsWatchers(): void {
+    for (const disposable of this.extendsWatchers) {
+      disposable.dispose();
+    }
+    this.extendsWatchers = [];
+  }
+
   /**
    * Watch folder .vscode/settings.json files for changes
    */
@@ -147,14 +260,63 @@ export class FileWatcherService {
       }
 
       this.outputChannel.appendLine(`Folder settings change detected: ${folderPath}`);
-      this.debounce(() => this.triggerReverseSync(folderPath));
+      this.debounce(`reverse:${folderPath}`, () => this.enqueueSync(() => this.triggerReverseSync(folderPath)));
     };
 
     return vscode.Disposable.from(watcher, watcher.onDidChange(onChange), watcher.onDidCreate(onChange));
   }
 
   /**
-   * Get the relative folder path from a settings.json URI
+   * Watch folder .vscode/extensions.json, launch.json and tasks.json files for changes
+   */
+  private watchFolderConfigurationFiles(): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/.vscode/{extensions,launch,tasks}.json');
+
+    const onChange = async (uri: vscode.Uri) => {
+      const fileName = path.basename(uri.fsPath);
+
+      // Skip if we're currently doing a forward sync (we caused this change)
+      if (this.isForwardSyncing) {
+        this.outputChannel.appendLine(
+          `Folder ${fileName} change detected at ${uri.fsPath}, but skipping (forward sync in progress)`
+        );
+        return;
+      }
+
+      const folderPath = this.getFolderPathFromUri(uri);
+      if (!folderPath) {
+        this.outputChannel.appendLine(
+          `Folder ${fileName} change detected at ${uri.fsPath}, but couldn't determine folder path`
+        );
+        return;
+      }
+
+      this.outputChannel.appendLine(`Folder ${fileName} change detected: ${folderPath}`);
+      if (fileName === 'extensions.json') {
+        this.debounce(`extensions:${folderPath}`, () =>
+          this.enqueueSync(() =>
+            this.triggerConfigurationReverseSync(`extensions reverse sync (${folderPath})`, () =>
+              this.extensionsSync.syncFolderToWorkspace(folderPath)
+            )
+          )
+        );
+      } else {
+        // launch.json and tasks.json are synced together
+        this.debounce(`launchTasks:${folderPath}`, () =>
+          this.enqueueSync(() =>
+            this.triggerConfigurationReverseSync(`launch/tasks reverse sync (${folderPath})`, () =>
+              this.launchTasksSync.syncFolderToWorkspace(folderPath)
+            )
+          )
+        );
+      }
+    };
+
+    return vscode.Disposable.from(watcher, watcher.onDidChange(onChange), watcher.onDidCreate(onChange));
+  }
+
+  /**
+   * Get the relative folder path from a URI of a file in a folder's .vscode directory
    */
   private getFolderPathFromUri(uri: vscode.Uri): string | null {
     const workspaceDir = this.workspaceConfig.getWorkspaceDir();
@@ -190,7 +352,12 @@ export class FileWatcherService {
 
     this.isForwardSyncing = true;
     try {
-      const count = await this.forwardSync.sync();
+      const count = await this.syncHistory.runOperation('Auto forward sync', async () => {
+        const settingsCount = await this.forwardSync.sync();
+        await this.extensionsSync.sync();
+        await this.launchTasksSync.sync();
+        return settingsCount;
+      });
       if (count > 0) {
         vscode.window.showInformationMessage(`Workspace Manager: Synced settings to ${count} folder(s)`);
       }
@@ -217,7 +384,9 @@ export class FileWatcherService {
 
     this.isReverseSyncing = true;
     try {
-      const success = await this.reverseSync.syncFolderToWorkspace(folderPath);
+      const success = await this.syncHistory.runOperation(`Auto reverse sync (${folderPath})`, () =>
+        this.reverseSync.syncFolderToWorkspace(folderPath)
+      );
       if (success) {
         vscode.window.showInformationMessage(`Workspace Manager: Synced folder changes to workspace file`);
       }
@@ -231,6 +400,33 @@ export class FileWatcherService {
     }
   }
 
+  /**
+   * Trigger reverse sync of a folder configuration file (extensions, launch, tasks) with sync loop prevention
+   */
+  private async triggerConfigurationReverseSync(label: string, fn: () => Promise<boolean>): Promise<void> {
+    // Check if auto sync is enabled
+    const isAutoSyncEnabled = await this.isAutoSyncEnabled();
+    if (!isAutoSyncEnabled) {
+      this.outputChannel.appendLine(`Auto ${label} skipped: autoSync is disabled`);
+      return;
+    }
+
+    this.isReverseSyncing = true;
+    try {
+      const success = await this.syncHistory.runOperation(`Auto ${label}`, fn);
+      if (success) {
+        vscode.window.showInformationMessage(`Workspace Manager: Synced folder changes to workspace file`);
+      }
+    } catch (error) {
+      this.outputChannel.appendLine(`Auto ${label} error: ${error instanceof Error ? error.message : String(error)}`);
+      vscode.window.showErrorMessage(
+        `Workspace Manager: Reverse sync failed - ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      this.isReverseSyncing = false;
+    }
+  }
+
   /**
    * Check if auto sync is enabled
    */
@@ -244,13 +440,35 @@ export class FileWatcherService {
     }
   }
 
+  /**
+   * Run a sync after the previously queued ones finished
+   *
+   * Forward and reverse syncs read and write the same files (workspace file, sync manifests), so they
+   * run one at a time instead of overwriting each other's changes.
+   */
+  private enqueueSync(fn: () => Promise<void>): Promise<void> {
+    const run = this.syncQueue.then(fn);
+    this.syncQueue = run.catch(() => undefined);
+    return run;
+  }
+
   /**
    * Debounce function calls
+   *
+   * Each key has its own timer, so a workspace file change and a folder settings change
+   * arriving together (e.g. from a git pull) both get synced instead of one cancelling the other.
    */
-  private debounce(fn: () => void): void {
-    if (this.debounceTimeout) {
-      clearTimeout(this.debounceTimeout);
+  private debounce(key: string, fn: () => void): void {
+    const existing = this.debounceTimeouts.get(key);
+    if (existing) {
+      clearTimeout(existing);
     }
-    this.debounceTimeout = setTimeout(fn, this.debounceMs);
+    this.debounceTimeouts.set(
+      key,
+      setTimeout(() => {
+        this.debounceTimeouts.delete(key);
+        fn();
+      }, this.debounceMs)
+    );
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * Folder CodeLens provider
+ *
+ * Shows the sync status of each entry in the "folders" array of the workspace file,
+ * with actions to sync the folder, pull its changes or open its generated settings.json.
+ */
+
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { FolderStatusService } from './folderStatus';
+import type { FolderSyncStatus } from '../types';
+
+export const SYNC_FOLDER_COMMAND = 'workspaceManager.syncFolder';
+export const PULL_FOLDER_COMMAND = 'workspaceManager.pullFolder';
+
+export class FolderCodeLensProvider implements vscode.CodeLensProvider {
+  private changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(
+    private folderStatus: FolderStatusService,
+    private outputChannel: vscode.OutputChannel
+  ) {}
+
+  /**
+   * Recompute the folder status lenses
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    // Only provide lenses for the ACTIVE workspace file
+    const activeWorkspaceFile = vscode.workspace.workspaceFile;
+    if (!activeWorkspaceFile || document.uri.toString() !== activeWorkspaceFile.toString()) {
+      return [];
+    }
+
+    const rootNode = jsonc.parseTree(document.getText());
+    const foldersNode = rootNode && jsonc.findNodeAtLocation(rootNode, ['folders']);
+    if (!foldersNode || foldersNode.type !== 'array' || !foldersNode.children) {
+      return [];
+    }
+
+    let statuses: FolderSyncStatus[];
+    try {
+      statuses = await this.folderStatus.getStatus();
+    } catch (error) {
+      this.outputChannel.appendLine(`Folder status error: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+
+    const lenses: vscode.CodeLens[] = [];
+    for (const folderNode of foldersNode.children) {
+      const pathNode = jsonc.findNodeAtLocation(folderNode, ['path']);
+      const status = statuses.find((s) => s.folder.path === pathNode?.value);
+      if (!status) {
+        // Root folder or not synced
+        continue;
+      }
+
+      const start = document.positionAt(folderNode.offset);
+      const range = new vscode.Range(start, start);
+      const folderPath = status.folder.path;
+
+      lenses.push(
+        new vscode.CodeLens(range, { title: this.describeStatus(status), command: '' }),
+        new vscode.CodeLens(range, {
+          title: 'Sync this folder',
+          command: SYNC_FOLDER_COMMAND,
+          arguments: [folderPath],
+        }),
+        new vscode.CodeLens(range, {
+          title: 'Pull changes from folder',
+          command: PULL_FOLDER_COMMAND,
+          arguments: [folderPath],
+        }),
+        new vscode.CodeLens(range, {
+          title: 'Open generated settings.json',
+          command: 'vscode.open',
+          arguments: [vscode.Uri.file(status.settingsFile)],
+        })
+      );
+    }
+
+    return lenses;
+  }
+
+  /**
+   * Summary line, e.g. "12 effective settings · 3 overrides · drifted: 2 keys"
+   */
+  private describeStatus(status: FolderSyncStatus): string {
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    const sync = status.driftedKeys.length > 0 ? `drifted: ${plural(status.driftedKeys.length, 'key')}` : 'in sync';
+    return `${plural(status.effectiveCount, 'effective setting')} · ${plural(status.overrideCount, 'override')} · ${sync}`;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Folder status service
+ *
+ * Compares the settings the forward sync merge chain generates for each folder with the
+ * folder's current .vscode/settings.json, without writing anything.
+ */
+
+import * as jsonc from 'jsonc-parser';
+import { ForwardSyncService } from './forwardSync';
+import { SettingsMerger } from './settingsMerger';
+import { flattenLanguageOverrides } from '../utils/languageOverrides';
+import { WORKSPACE_MANAGER_PREFIX, type FolderSyncStatus, type ForwardSyncPlan, type Settings } from '../types';
+
+export class FolderStatusService {
+  private merger = new SettingsMerger();
+
+  constructor(private forwardSync: ForwardSyncService) {}
+
+  /**
+   * Get the sync status of every folder forward sync writes to
+   *
+   * @param folderPath - Only check this folder (relative folder path as written in the workspace file)
+   */
+  async getStatus(folderPath?: string): Promise<FolderSyncStatus[]> {
+    const plans = await this.forwardSync.plan(folderPath);
+    return plans.map((plan) => ({
+      folder: plan.folder,
+      settingsFile: plan.settingsFile,
+      effectiveCount: Object.keys(flattenLanguageOverrides(plan.settings)).length,
+      overrideCount: Object.keys(flattenLanguageOverrides(plan.folder.settings ?? {})).filter(
+        (key) => !key.startsWith(WORKSPACE_MANAGER_PREFIX)
+      ).length,
+      driftedKeys: this.getDriftedKeys(plan),
+    }));
+  }
+
+  /**
+   * Get the keys where the folder's settings file differs from the generated settings
+   *
+   * Generated keys that are missing or have another value count as drifted, as do keys
+   * written by an earlier sync that are no longer generated. Unmanaged keys are ignored.
+   */
+  private getDriftedKeys(plan: ForwardSyncPlan): string[] {
+    const expected = flattenLanguageOverrides(plan.settings);
+    const current = plan.existingContent
+      ? flattenLanguageOverrides((jsonc.parse(plan.existingContent) as Settings | undefined) ?? {})
+      : {};
+
+    const changed = Object.keys(expected).filter((key) => !this.merger.deepEqual(current[key], expected[key]));
+    const stale = Object.keys(current).filter((key) => !(key in expected) && !plan.unmanagedKeys.includes(key));
+    return [...changed, ...stale];
+  }
+}
@@ -5,78 +5,221 @@
  * merged with folder-specific settings.
  */
 
-import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
 import { WorkspaceConfigService } from './workspaceConfig';
 import { SettingsMerger } from './settingsMerger';
+import { SyncManifestService } from './syncManifest';
 import { PatternMatcher } from '../utils/patternMatcher';
-import { SETTINGS_KEYS, WORKSPACE_MANAGER_PREFIX, type Settings } from '../types';
+import { EventEmitter, type Event } from '../utils/eventEmitter';
+import { detectIndentationStyle, modifyJsonc } from '../utils/jsoncFormatting';
+import {
+  expandOverrideKey,
+  flattenLanguageOverrides,
+  isLanguageOverrideKey,
+  splitOverrideEntryKey,
+  toSettingsPath,
+  unflattenLanguageOverrides,
+} from '../utils/languageOverrides';
+import { resolveFolderProfiles } from '../utils/profiles';
+import { resolveFolderOverrides } from '../utils/folderOverrides';
+import { getFolderVariables, resolveVariables } from '../utils/variables';
+import { removeFolderIgnoredSettings } from '../utils/settingScopes';
+import {
+  SETTINGS_KEYS,
+  WORKSPACE_MANAGER_PREFIX,
+  type FolderConfig,
+  type Logger,
+  type ForwardSyncOptions,
+  type ForwardSyncPlan,
+  type MergeStrategies,
+  type Settings,
+  type SettingScopeLookup,
+  type SettingsConflict,
+  type SyncEvent,
+  type SyncedFolder,
+} from '../types';
 
 export class ForwardSyncService {
   private workspaceConfig: WorkspaceConfigService;
   private merger: SettingsMerger;
-  private outputChannel: vscode.OutputChannel;
+  private manifest: SyncManifestService;
+  private outputChannel: Logger;
+  private getScope: SettingScopeLookup;
+  private conflictEmitter: EventEmitter<SettingsConflict[]>;
 
-  constructor(workspaceConfig: WorkspaceConfigService, outputChannel: vscode.OutputChannel) {
+  /**
+   * Fired when a sync finds keys changed on both sides since the last sync
+   */
+  readonly onDidDetectConflicts: Event<SettingsConflict[]>;
+
+  private syncEmitter: EventEmitter<SyncEvent>;
+
+  /**
+   * Fired after a sync wrote folder settings files, with the keys that changed per folder
+   */
+  readonly onDidSync: Event<SyncEvent>;
+
+  /**
+   * @param getScope - Registered scope of a setting; settings VS Code ignores at folder level are not synced
+   */
+  constructor(
+    workspaceConfig: WorkspaceConfigService,
+    outputChannel: Logger,
+    getScope: SettingScopeLookup = () => undefined
+  ) {
     this.workspaceConfig = workspaceConfig;
     this.merger = new SettingsMerger();
+    this.manifest = new SyncManifestService(workspaceConfig);
     this.outputChannel = outputChannel;
+    this.getScope = getScope;
+    this.conflictEmitter = new EventEmitter(outputChannel);
+    this.onDidDetectConflicts = this.conflictEmitter.event;
+    this.syncEmitter = new EventEmitter(outputChannel);
+    this.onDidSync = this.syncEmitter.event;
   }
 
   /**
    * Perform forward sync for all folders
    *
-   * Merge order: Root settings → subFolderSettings.defaults → filter rootSettings.exclude → folders[].settings → output
+   * Merge order: Extended files → Root settings → subFolderSettings.defaults → filter rootSettings.exclude → profiles → folderOverrides → folders[].settings → drop folder-ignored scopes → resolve variables → output
    */
-  async sync(): Promise<number> {
+  async sync(folderPath?: string, options: ForwardSyncOptions = {}): Promise<number> {
+    return this.applyPlans(await this.plan(folderPath, options));
+  }
+
+  /**
+   * Write previously computed plans (see plan) and update the sync manifests
+   *
+   * @returns Number of folders whose settings.json changed
+   */
+  async applyPlans(plans: ForwardSyncPlan[]): Promise<number> {
+    const synced: SyncedFolder[] = [];
+
+    for (const plan of plans) {
+      const label = plan.folder.name || plan.folder.path;
+
+      try {
+        for (const conflict of plan.conflicts) {
+          this.outputChannel.appendLine(
+            `Conflict in ${label}: "${conflict.key}" changed in both the workspace file and .vscode/settings.json, left unchanged`
+          );
+        }
+
+        const ignoredScopes = Object.entries(plan.ignoredScopes);
+        if (ignoredScopes.length > 0) {
+          this.outputChannel.appendLine(
+            `Skipped ${ignoredScopes.length} setting(s) for ${label} that have no effect in folder settings: ${ignoredScopes.map(([key, scope]) => `${key} (${scope} scope)`).join(', ')}`
+          );
+        }
+
+        if (plan.unmanagedKeys.length > 0) {
+          this.outputChannel.appendLine(
+            `Preserved ${plan.unmanagedKeys.length} unmanaged setting(s) in ${label}/.vscode/settings.json: ${plan.unmanagedKeys.join(', ')}`
+          );
+        }
+
+        // Write to .vscode/settings.json (only if changed)
+        const wasChanged = await this.writeSettingsJson(plan);
+
+        if (wasChanged) {
+          this.outputChannel.appendLine(`Synced settings to ${label}/.vscode/settings.json`);
+          synced.push({ path: plan.folder.path, name: plan.folder.name, changedKeys: this.getChangedKeys(plan) });
+        }
+      } catch (error) {
+        this.outputChannel.appendLine(
+          `Error syncing ${label}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const conflicts = plans.flatMap((plan) => plan.conflicts);
+    if (conflicts.length > 0) {
+      this.conflictEmitter.fire(conflicts);
+    }
+    if (synced.length > 0) {
+      this.syncEmitter.fire({ folders: synced });
+    }
+
+    return synced.length;
+  }
+
+  /**
+   * Get the keys a plan changes in the folder's settings file
+   */
+  private getChangedKeys(plan: ForwardSyncPlan): string[] {
+    const before = plan.existingContent ? ((jsonc.parse(plan.existingContent) ?? {}) as Settings) : {};
+    const after = (jsonc.parse(plan.newContent) ?? {}) as Settings;
+    return Object.keys(this.merger.diff(before, after));
+  }
+
+  /**
+   * Compute what forward sync would write for every folder, without writing anything
+   *
+   * @param folderPath - Only plan this folder (relative folder path as written in the workspace file)
+   * @returns One plan per non-root folder (empty if forward sync is disabled)
+   */
+  async plan(folderPath?: string, options: ForwardSyncOptions = {}): Promise<ForwardSyncPlan[]> {
     const workspace = await this.workspaceConfig.load();
-    const globalSettings = workspace.settings;
+    // Root settings with the shared files from workspaceManager.extends layered underneath
+    const globalSettings = await this.workspaceConfig.resolveRootSettings(workspace.settings);
 
     // Check if forward sync is enabled
     if (globalSettings[SETTINGS_KEYS.syncEnabled] === false) {
       this.outputChannel.appendLine('Forward sync skipped: sync.enabled is false');
-      return 0;
+      return [];
     }
 
-    // Get subFolderSettings.defaults and exclude patterns
     const subFolderDefaults = (globalSettings[SETTINGS_KEYS.syncSubFolderSettingsDefaults] as Settings) ?? {};
-    const excludePatterns = (globalSettings[SETTINGS_KEYS.syncRootSettingsExclude] as string[]) ?? [];
-    const matcher = new PatternMatcher(excludePatterns);
+    const workspaceDir = this.workspaceConfig.getWorkspaceDir() ?? '';
 
-    let syncedCount = 0;
+    const plans: ForwardSyncPlan[] = [];
 
     for (const folder of workspace.folders) {
+      if (folderPath !== undefined && folder.path !== folderPath) {
+        continue;
+      }
+
       // Skip root folder (comparing resolved paths)
       const isRoot = await this.workspaceConfig.isWorkspaceRoot(folder.path);
       if (isRoot) {
-        this.outputChannel.appendLine(`Skipping root folder`);
         continue;
       }
 
       try {
-        // 1. Remove workspaceManager.* keys from root
-        const rootWithoutWM = this.removeWorkspaceManagerKeys(globalSettings);
+        // 1-5. Root → subFolderSettings.defaults → rootSettings.exclude → profiles → folder overrides → folder settings
+        const merged = this.mergeFolderSettings(globalSettings, folder);
 
-        // 2. Merge root → subFolderSettings.defaults
-        const withDefaults = this.merger.merge(rootWithoutWM, subFolderDefaults);
+        // 6. Remove settings VS Code ignores in folders (application, machine and window scope).
+        // Scopes recorded by earlier syncs fill in for schemas that aren't available (e.g. in the CLI).
+        const recordedScopes = await this.manifest.getIgnoredScopes(folder.path);
+        const scoped = removeFolderIgnoredSettings(merged, (key) => this.getScope(key) ?? recordedScopes[key]);
+        const cleaned = scoped.settings;
 
-        // 3. Apply exclude patterns (prevents inheritance, but folders can re-add)
-        const filtered = this.filterByPatterns(withDefaults, matcher);
+        // 7. Restore multi-language headers (e.g. "[typescript][javascript]") used in the workspace file
+        const recombined = this.merger.recombineLanguageOverrides(cleaned, [
+          globalSettings,
+          subFolderDefaults,
+          ...resolveFolderProfiles(globalSettings, folder.settings),
+          ...resolveFolderOverrides(globalSettings, folder),
+          folder.settings ?? {},
+        ]);
 
-        // 4. Merge with folder settings (folder has final say)
-        const merged = this.merger.merge(filtered, folder.settings ?? {});
+        // 8. Resolve ${workspaceManager:*} and ${env:*} variables for this folder
+        const resolved = resolveVariables(recombined, getFolderVariables(folder, workspaceDir));
 
-        // 5. Remove any remaining workspaceManager.* keys and write
-        const cleaned = this.removeWorkspaceManagerKeys(merged);
-
-        // Write to .vscode/settings.json (only if changed)
-        const wasChanged = await this.writeSettingsJson(folder.path, cleaned);
-
-        if (wasChanged) {
-          this.outputChannel.appendLine(`Synced settings to ${folder.name || folder.path}/.vscode/settings.json`);
-          syncedCount++;
-        }
+        const acceptsReverseSync = this.createReverseSyncFilter(globalSettings, folder);
+        const ignoredScopes = Object.fromEntries(
+          scoped.removed.map(({ key, scope }) => [splitOverrideEntryKey(key)?.setting ?? key, scope])
+        );
+        const plan = await this.planSettingsJson(
+          folder,
+          resolved,
+          acceptsReverseSync,
+          options.overwriteFolderChanges ?? false
+        );
+        plans.push({ ...plan, ignoredScopes });
       } catch (error) {
         this.outputChannel.appendLine(
           `Error syncing ${folder.name || folder.path}: ${error instanceof Error ? error.message : String(error)}`
@@ -84,25 +227,106 @@ export class ForwardSyncService {
       }
     }
 
-    return syncedCount;
+    return plans;
   }
 
   /**
-   * Filter settings by exclude patterns (excludePatterns = "don't inherit")
+   * Compute the settings a folder inherits, before its own folders[].settings are merged
+   *
+   * Merge order: Root settings → subFolderSettings.defaults → filter rootSettings.exclude → profiles → folderOverrides
+   *
+   * @param globalSettings - Root settings with extended files layered underneath (see WorkspaceConfigService.resolveRootSettings)
    */
-  private filterByPatterns(settings: Settings, matcher: PatternMatcher): Settings {
-    const result: Settings = {};
+  getInheritedSettings(globalSettings: Settings, folder: FolderConfig): Settings {
+    const subFolderDefaults = (globalSettings[SETTINGS_KEYS.syncSubFolderSettingsDefaults] as Settings) ?? {};
+    const excludePatterns = (globalSettings[SETTINGS_KEYS.syncRootSettingsExclude] as string[]) ?? [];
+    const strategies = (globalSettings[SETTINGS_KEYS.syncMergeStrategies] as MergeStrategies) ?? {};
 
-    for (const [key, value] of Object.entries(settings)) {
-      // Skip keys matching exclude patterns
-      if (matcher.isExcluded(key)) {
-        continue;
+    // 1. Remove workspaceManager.* keys from root
+    const rootWithoutWM = this.removeWorkspaceManagerKeys(globalSettings);
+
+    // 2. Merge root → subFolderSettings.defaults
+    const withDefaults = this.merger.merge(rootWithoutWM, subFolderDefaults, strategies);
+
+    // 3. Apply exclude patterns (prevents inheritance, but folders can re-add)
+    const filtered = this.filterByPatterns(withDefaults, new PatternMatcher(excludePatterns));
+
+    // 4. Merge the profiles the folder opts into (in the listed order), then matching folder overrides
+    const layers = [
+      ...resolveFolderProfiles(globalSettings, folder.settings),
+      ...resolveFolderOverrides(globalSettings, folder),
+    ];
+    return layers.reduce<Settings>((settings, layer) => this.merger.merge(settings, layer, strategies), filtered);
+  }
+
+  /**
+   * Compute the settings a folder ends up with, before scopes are filtered and variables resolved
+   *
+   * Merge order: inherited settings (see getInheritedSettings) → folders[].settings, without workspaceManager.* keys
+   *
+   * @param globalSettings - Root settings with extended files layered underneath
+   */
+  mergeFolderSettings(globalSettings: Settings, folder: FolderConfig): Settings {
+    const strategies = (globalSettings[SETTINGS_KEYS.syncMergeStrategies] as MergeStrategies) ?? {};
+    const merged = this.merger.merge(
+      this.getInheritedSettings(globalSettings, folder),
+      folder.settings ?? {},
+      strategies
+    );
+    return this.removeWorkspaceManagerKeys(merged);
+  }
+
+  /**
+   * Find the folders[].settings entries that don't change what the folder ends up with
+   *
+   * An entry is redundant when merging the folder settings without it gives the same result:
+   * a value equal to the inherited one, or a null unsetting a key nothing sets.
+   *
+   * @param globalSettings - Root settings with extended files layered underneath
+   * @returns Redundant keys (entries of language blocks as "[language].setting", with headers as written)
+   */
+  findRedundantOverrides(globalSettings: Settings, folder: FolderConfig): string[] {
+    const strategies = (globalSettings[SETTINGS_KEYS.syncMergeStrategies] as MergeStrategies) ?? {};
+    const inherited = this.getInheritedSettings(globalSettings, folder);
+    const folderSettings = flattenLanguageOverrides(this.removeWorkspaceManagerKeys(folder.settings ?? {}));
+    const mergeFolder = (settings: Settings) =>
+      this.merger.merge(inherited, unflattenLanguageOverrides(settings), strategies);
+    const expected = mergeFolder(folderSettings);
+
+    return Object.keys(folderSettings).filter((key) => {
+      // Empty language blocks are kept as they are
+      if (isLanguageOverrideKey(key)) {
+        return false;
       }
+      const { [key]: _entry, ...withoutEntry } = folderSettings;
+      return this.merger.deepEqual(mergeFolder(withoutEntry), expected);
+    });
+  }
 
-      result[key] = value;
+  /**
+   * Create a predicate telling whether reverse sync would pick up a folder-side change to a key
+   */
+  private createReverseSyncFilter(globalSettings: Settings, folder: FolderConfig): (key: string) => boolean {
+    const isEnabled =
+      folder.settings?.[SETTINGS_KEYS.reverseSyncEnabled] ?? globalSettings[SETTINGS_KEYS.reverseSyncEnabled] ?? true;
+    if (!isEnabled) {
+      return () => false;
     }
 
-    return result;
+    const rootExclude = (globalSettings[SETTINGS_KEYS.reverseSyncFolderSettingsExclude] as string[]) ?? [];
+    const folderExclude = (folder.settings?.[SETTINGS_KEYS.reverseSyncFolderSettingsExclude] as string[]) ?? [];
+    const matcher = new PatternMatcher([...rootExclude, ...folderExclude]);
+    return (key) => !key.startsWith(WORKSPACE_MANAGER_PREFIX) && !matcher.isExcluded(key);
+  }
+
+  /**
+   * Filter settings by exclude patterns (excludePatterns = "don't inherit")
+   *
+   * Entries inside language blocks are matched as "[language].setting", nested entries of
+   * object-valued settings as "setting.subKey" (e.g. "files.exclude.**\/dist").
+   */
+  private filterByPatterns(settings: Settings, matcher: PatternMatcher): Settings {
+    return unflattenLanguageOverrides(matcher.filterSettings(this.merger.flattenSettings(settings)));
   }
 
   /**
@@ -121,33 +345,171 @@ export class ForwardSyncService {
   }
 
   /**
-   * Write settings to a folder's .vscode/settings.json
+   * Compute the new content of a folder's .vscode/settings.json
    *
-   * @returns true if the file was changed, false if content was identical
+   * Only keys owned by forward sync (recorded in the sync manifest) are added, updated
+   * or removed. Keys written by hand or by other tools are left untouched.
+   *
+   * When a last-synced base exists, keys changed on both sides are reported as conflicts
+   * and left as they are, and folder-side changes that reverse sync will pick up are kept.
+   * With overwriteFolderChanges, all generated keys are written and recorded as the new base.
    */
-  private async writeSettingsJson(folderPath: string, settings: Settings): Promise<boolean> {
-    const resolvedPath = await this.workspaceConfig.resolveFolderPath(folderPath);
-    const vscodeDir = path.join(resolvedPath, '.vscode');
-    const settingsFile = path.join(vscodeDir, 'settings.json');
-
-    // Write settings.json with proper formatting
-    const newContent = JSON.stringify(settings, null, 4) + '\n';
+  private async planSettingsJson(
+    folder: FolderConfig,
+    settings: Settings,
+    acceptsReverseSync: (key: string) => boolean,
+    overwriteFolderChanges: boolean
+  ): Promise<Omit<ForwardSyncPlan, 'ignoredScopes'>> {
+    const resolvedPath = await this.workspaceConfig.resolveFolderPath(folder.path);
+    const settingsFile = path.join(resolvedPath, '.vscode', 'settings.json');
 
-    // Check if file exists and has the same content
+    let existingContent: string | null = null;
     try {
-      const existingContent = await fs.readFile(settingsFile, 'utf-8');
-      if (existingContent === newContent) {
-        return false; // No change needed
-      }
+      existingContent = await fs.readFile(settingsFile, 'utf-8');
     } catch {
       // File doesn't exist, will be created
     }
 
-    // Create .vscode directory if it doesn't exist
-    await fs.mkdir(vscodeDir, { recursive: true });
+    if (existingContent === null) {
+      // Write settings.json with proper formatting
+      return {
+        folder,
+        settingsFile,
+        settings,
+        base: settings,
+        existingContent,
+        newContent: JSON.stringify(settings, null, 4) + '\n',
+        unmanagedKeys: [],
+        conflicts: [],
+      };
+    }
+
+    const existingSettings = (jsonc.parse(existingContent) as Settings | undefined) ?? {};
+    const previouslyManaged = (await this.manifest.getManagedKeys(folder.path)) ?? [];
+    const formattingOptions = detectIndentationStyle(existingContent);
+
+    // Language blocks are edited per entry ("[python].editor.tabSize"), with headers as written
+    const flatSettings = flattenLanguageOverrides(settings);
+    const flatExisting = flattenLanguageOverrides(existingSettings);
+    const isManaged = (key: string) =>
+      previouslyManaged.includes(key) || previouslyManaged.includes(splitOverrideEntryKey(key)?.header ?? key);
+
+    // Three-way comparison against the last-synced base decides which keys to leave alone
+    // (compared per language, e.g. "[typescript][javascript].x" as "[typescript].x" and "[javascript].x")
+    const previousBase = await this.manifest.getBaseSettings(folder.path);
+    const normalizedSettings = this.merger.flattenSettings(settings);
+    const base = { ...normalizedSettings };
+    const skippedKeys = new Set<string>();
+    const conflicts: SettingsConflict[] = [];
+
+    if (previousBase && !overwriteFolderChanges) {
+      const normalizedBase = this.merger.flattenSettings(previousBase);
+      const normalizedExisting = this.merger.flattenSettings(existingSettings);
+      const managedKeys = new Set(Object.keys(flatExisting).filter(isManaged).flatMap(expandOverrideKey));
+      const comparison = this.merger.compareThreeWay(normalizedBase, normalizedSettings, normalizedExisting);
 
-    // Write the new content
-    await fs.writeFile(settingsFile, newContent, 'utf-8');
-    return true;
+      for (const key of comparison.conflicts) {
+        conflicts.push({
+          folder,
+          key,
+          baseValue: normalizedBase[key],
+          workspaceValue: normalizedSettings[key],
+          folderValue: normalizedExisting[key],
+        });
+        skippedKeys.add(key);
+      }
+
+      for (const key of comparison.folderChanged) {
+        if (key in normalizedSettings || managedKeys.has(key)) {
+          if (acceptsReverseSync(key)) {
+            skippedKeys.add(key);
+          }
+        }
+      }
+
+      // Keep the previous base for skipped keys so they are compared again on the next sync
+      for (const key of skippedKeys) {
+        if (key in normalizedBase) {
+          base[key] = normalizedBase[key];
+        } else {
+          delete base[key];
+        }
+      }
+    }
+
+    const isSkipped = (key: string) => expandOverrideKey(key).some((expanded) => skippedKeys.has(expanded));
+    let newContent = existingContent;
+
+    // Add or update generated keys
+    for (const [key, value] of Object.entries(flatSettings)) {
+      if (!isSkipped(key) && !this.merger.deepEqual(flatExisting[key], value)) {
+        newContent = modifyJsonc(newContent, toSettingsPath(key), value, formattingOptions);
+      }
+    }
+
+    // Remove keys we generated previously that are no longer part of the output
+    for (const key of Object.keys(flatExisting)) {
+      if (isManaged(key) && !isSkipped(key) && !(key in flatSettings)) {
+        newContent = modifyJsonc(newContent, toSettingsPath(key), undefined, formattingOptions);
+      }
+    }
+
+    // Drop language blocks emptied by the removals above
+    const updatedSettings = (jsonc.parse(newContent) as Settings | undefined) ?? {};
+    for (const [key, value] of Object.entries(updatedSettings)) {
+      if (
+        isLanguageOverrideKey(key) &&
+        this.merger.isPlainObject(value) &&
+        Object.keys(value).length === 0 &&
+        !this.merger.deepEqual(existingSettings[key], value)
+      ) {
+        newContent = modifyJsonc(newContent, [key], undefined, formattingOptions);
+      }
+    }
+
+    const unmanagedKeys = Object.keys(flatExisting).filter((key) => !(key in flatSettings) && !isManaged(key));
+
+    return {
+      folder,
+      settingsFile,
+      settings,
+      base: unflattenLanguageOverrides(base),
+      existingContent,
+      newContent,
+      unmanagedKeys,
+      conflicts,
+    };
+  }
+
+  /**
+   * Write a planned .vscode/settings.json and update the sync manifest
+   *
+   * The manifest is only updated once settings.json was written, so it never records
+   * managed keys or a base the file doesn't have.
+   *
+   * @returns true if the file was changed, false if content was identical
+   */
+  private async writeSettingsJson(plan: ForwardSyncPlan): Promise<boolean> {
+    // Write the new content if changed (creates the .vscode directory if needed)
+    const wasChanged =
+      plan.existingContent !== plan.newContent &&
+      (await this.workspaceConfig.writeTrackedFile(plan.settingsFile, plan.newContent));
+
+    await this.manifest.setSyncState(
+      plan.folder.path,
+      Object.keys(flattenLanguageOverrides(plan.settings)),
+      plan.base,
+      plan.ignoredScopes
+    );
+
+    return wasChanged;
+  }
+
+  /**
+   * Dispose the event emitters
+   */
+  dispose(): void {
+    this.conflictEmitter.dispose();
+    this.syncEmitter.dispose();
   }
 }
@@ -0,0 +1,182 @@
+/**
+ * Hover provider
+ *
+ * Shows the inheritance impact of a setting in the .code-workspace file: which folders
+ * inherit it, override it or have it blocked by an exclude pattern, and the value each
+ * folder ends up with.
+ */
+
+import * as vscode from 'vscode';
+import * as jsonc from 'jsonc-parser';
+import { WorkspaceConfigService } from './workspaceConfig';
+import { getSourceLabel, SettingsProvenanceService } from './settingsProvenance';
+import { expandOverrideKey, isLanguageOverrideKey } from '../utils/languageOverrides';
+import { getFolderProfileNames } from '../utils/profiles';
+import { matchesFolder } from '../utils/folderOverrides';
+import {
+  SETTINGS_KEYS,
+  WORKSPACE_MANAGER_PREFIX,
+  type FolderConfig,
+  type SettingProvenance,
+  type SettingSource,
+} from '../types';
+
+/**
+ * The merge chain layer and settings key under the cursor
+ */
+interface HoveredSetting {
+  source: SettingSource;
+  /** Profile name or folder override pattern */
+  detail?: string;
+  /** Index in folders[] (source "folder" only) */
+  folderIndex?: number;
+  /** Settings key (entries of language blocks as "[language].setting") */
+  key: string;
+}
+
+const MAX_VALUE_LENGTH = 80;
+
+export class WorkspaceHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private workspaceConfig: WorkspaceConfigService,
+    private provenance: SettingsProvenanceService
+  ) {}
+
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    // Only for the ACTIVE workspace file
+    if (document.uri.fsPath !== this.workspaceConfig.getWorkspacePath()) {
+      return undefined;
+    }
+
+    const location = jsonc.getLocation(document.getText(), document.offsetAt(position));
+    const hovered = this.getHoveredSetting(location.path);
+    if (!hovered || !location.previousNode) {
+      return undefined;
+    }
+
+    // Multi-language blocks ("[typescript][javascript]") are explained for their first language
+    const key = expandOverrideKey(hovered.key)[0];
+    const workspace = await this.workspaceConfig.load();
+    const folders = await this.provenance.explainAll();
+
+    const rows: string[] = [];
+    for (const { folder, settings } of folders) {
+      const index = workspace.folders.findIndex((f) => f.path === folder.path);
+      if (!this.layerApplies(hovered, folder, index)) {
+        continue;
+      }
+      rows.push(
+        this.describeFolder(
+          hovered,
+          folder,
+          settings.find((setting) => setting.key === key)
+        )
+      );
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(
+      `**Workspace Manager** · \`${key}\` from ${getSourceLabel(hovered.source, hovered.detail)}\n\n`
+    );
+    if (rows.length === 0) {
+      markdown.appendMarkdown('No folders are affected.');
+    } else {
+      markdown.appendMarkdown('| Folder | Value | |\n| --- | --- | --- |\n' + rows.join('\n'));
+    }
+
+    const node = location.previousNode;
+    const range = new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+    return new vscode.Hover(markdown, range);
+  }
+
+  /**
+   * Map a JSON path in the workspace file to the merge chain layer and settings key it defines
+   *
+   * Handles root settings, subFolderSettings.defaults, profiles, folder overrides and folders[].settings.
+   */
+  private getHoveredSetting(path: jsonc.JSONPath): HoveredSetting | undefined {
+    let layer: Omit<HoveredSetting, 'key'>;
+    let keyPath: jsonc.JSONPath;
+
+    if (path[0] === 'settings' && path[1] === SETTINGS_KEYS.syncSubFolderSettingsDefaults) {
+      layer = { source: 'defaults' };
+      keyPath = path.slice(2);
+    } else if (path[0] === 'settings' && path[1] === SETTINGS_KEYS.syncProfiles && typeof path[2] === 'string') {
+      layer = { source: 'profile', detail: path[2] };
+      keyPath = path.slice(3);
+    } else if (path[0] === 'settings' && path[1] === SETTINGS_KEYS.syncFolderOverrides && typeof path[2] === 'string') {
+      layer = { source: 'folderOverride', detail: path[2] };
+      keyPath = path.slice(3);
+    } else if (path[0] === 'settings') {
+      layer = { source: 'root' };
+      keyPath = path.slice(1);
+    } else if (path[0] === 'folders' && typeof path[1] === 'number' && path[2] === 'settings') {
+      layer = { source: 'folder', folderIndex: path[1] };
+      keyPath = path.slice(3);
+    } else {
+      return undefined;
+    }
+
+    const [first, second] = keyPath;
+    if (typeof first !== 'string' || first.startsWith(WORKSPACE_MANAGER_PREFIX)) {
+      return undefined;
+    }
+    if (isLanguageOverrideKey(first)) {
+      // Entries of language blocks only (not the block header itself)
+      return typeof second === 'string' ? { ...layer, key: `${first}.${second}` } : undefined;
+    }
+    return { ...layer, key: first };
+  }
+
+  /**
+   * Check if the hovered layer takes part in a folder's merge chain
+   */
+  private layerApplies(hovered: HoveredSetting, folder: FolderConfig, folderIndex: number): boolean {
+    switch (hovered.source) {
+      case 'profile':
+        return getFolderProfileNames(folder.settings).includes(hovered.detail!);
+      case 'folderOverride':
+        return matchesFolder(hovered.detail!, folder);
+      case 'folder':
+        return folderIndex === hovered.folderIndex;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Table row describing what a folder ends up with
+   */
+  private describeFolder(hovered: HoveredSetting, folder: FolderConfig, setting?: SettingProvenance): string {
+    const label = folder.name || folder.path;
+
+    if (!setting) {
+      return `| ${label} | — | not synced |`;
+    }
+    if (setting.status === 'excluded') {
+      return `| ${label} | — | excluded by \`${setting.excludedBy}\` |`;
+    }
+
+    const value = setting.status === 'unset' ? '—' : this.formatValue(setting.value);
+    const isOwnLayer = setting.source === hovered.source && setting.detail === hovered.detail;
+    const state =
+      setting.status === 'unset'
+        ? `unset by ${getSourceLabel(setting.source, setting.detail)}`
+        : isOwnLayer
+          ? hovered.source === 'folder'
+            ? 'set here'
+            : 'inherits'
+          : `overridden by ${getSourceLabel(setting.source, setting.detail)}`;
+
+    return `| ${label} | ${value} | ${state} |`;
+  }
+
+  /**
+   * Format a value for a Markdown table cell
+   */
+  private formatValue(value: unknown): string {
+    const json = JSON.stringify(value) ?? 'undefined';
+    const short = json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH - 1)}…` : json;
+    return `\`${short.replace(/\|/g, '\\|')}\``;
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Launch and tasks sync service
+ *
+ * Generates .vscode/launch.json and .vscode/tasks.json files from root launch/tasks
+ * configurations merged with folders[].launch and folders[].tasks, and syncs
+ * configurations edited in a folder back to the workspace file.
+ *
+ * Configurations are matched by name (launch) or label (tasks) instead of replacing arrays.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { WorkspaceConfigService } from './workspaceConfig';
+import { SettingsMerger } from './settingsMerger';
+import { PatternMatcher } from '../utils/patternMatcher';
+import { detectIndentationStyle, modifyJsonc } from '../utils/jsoncFormatting';
+import { SETTINGS_KEYS, type FolderConfig, type Settings, type WorkspaceFile } from '../types';
+
+/**
+ * Describes a synced configuration file
+ */
+interface ConfigurationFileKind {
+  /** Key in the workspace file and in folders[] */
+  key: 'launch' | 'tasks';
+  /** File name in the folder's .vscode directory */
+  fileName: string;
+  /** Array sections and the property identifying their entries */
+  sections: Record<string, string>;
+  /** Setting with name/label patterns NOT inherited from root */
+  excludeSetting: string;
+  /** Setting with configurations applied to all non-root folders */
+  defaultsSetting: string;
+}
+
+const CONFIGURATION_FILES: ConfigurationFileKind[] = [
+  {
+    key: 'launch',
+    fileName: 'launch.json',
+    sections: { configurations: 'name', compounds: 'name' },
+    excludeSetting: SETTINGS_KEYS.syncRootLaunchExclude,
+    defaultsSetting: SETTINGS_KEYS.syncSubFolderLaunchDefaults,
+  },
+  {
+    key: 'tasks',
+    fileName: 'tasks.json',
+    sections: { tasks: 'label' },
+    excludeSetting: SETTINGS_KEYS.syncRootTasksExclude,
+    defaultsSetting: SETTINGS_KEYS.syncSubFolderTasksDefaults,
+  },
+];
+
+export class LaunchTasksSyncService {
+  private workspaceConfig: WorkspaceConfigService;
+  private merger: SettingsMerger;
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(workspaceConfig: WorkspaceConfigService, outputChannel: vscode.OutputChannel) {
+    this.workspaceConfig = workspaceConfig;
+    this.merger = new SettingsMerger();
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Write merged launch and tasks configurations to every folder's .vscode directory
+   *
+   * Merge order: root launch/tasks → subFolderLaunch/subFolderTasks.defaults → filter rootLaunch/rootTasks.exclude → folders[].launch/tasks → output
+   *
+   * @returns Number of folders with a changed launch.json or tasks.json
+   */
+  async sync(): Promise<number> {
+    const workspace = await this.workspaceConfig.load();
+
+    // Forward sync of launch/tasks follows sync.enabled
+    if (workspace.settings[SETTINGS_KEYS.syncEnabled] === false) {
+      return 0;
+    }
+
+    let syncedCount = 0;
+
+    for (const folder of workspace.folders) {
+      // Skip root folder (comparing resolved paths)
+      if (await this.workspaceConfig.isWorkspaceRoot(folder.path)) {
+        continue;
+      }
+
+      try {
+        let folderChanged = false;
+
+        for (const kind of CONFIGURATION_FILES) {
+          const expected = this.calculateExpected(workspace, folder, kind);
+          if (!expected) {
+            continue; // Nothing configured for this file
+          }
+
+          if (await this.writeConfigurationFile(folder.path, kind, expected)) {
+            this.outputChannel.appendLine(
+              `Synced ${kind.key} to ${folder.name || folder.path}/.vscode/${kind.fileName}`
+            );
+            folderChanged = true;
+          }
+        }
+
+        if (folderChanged) {
+          syncedCount++;
+        }
+      } catch (error) {
+        this.outputChannel.appendLine(
+          `Error syncing launch/tasks for ${folder.name || folder.path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return syncedCount;
+  }
+
+  /**
+   * Sync a folder's .vscode/launch.json and .vscode/tasks.json back to folders[].launch and folders[].tasks
+   *
+   * Added and edited configurations are recorded for the folder (edits to inherited configurations
+   * are stored as overrides matched by name/label). Removed folder-own configurations are removed.
+   *
+   * @param folderPath - The relative folder path
+   */
+  async syncFolderToWorkspace(folderPath: string): Promise<boolean> {
+    try {
+      const workspace = await this.workspaceConfig.load();
+      const folderIndex = workspace.folders.findIndex((f) => f.path === folderPath);
+      const folder = workspace.folders[folderIndex];
+
+      if (!folder || (await this.workspaceConfig.isWorkspaceRoot(folderPath))) {
+        return false;
+      }
+
+      // Reverse sync of launch/tasks follows reverseSync.enabled (folder setting has precedence over root)
+      const isEnabled =
+        folder.settings?.[SETTINGS_KEYS.reverseSyncEnabled] ??
+        workspace.settings[SETTINGS_KEYS.reverseSyncEnabled] ??
+        true;
+      if (!isEnabled) {
+        return false;
+      }
+
+      let updatedFolder: FolderConfig = folder;
+
+      for (const kind of CONFIGURATION_FILES) {
+        const current = await this.readConfigurationFile(folderPath, kind);
+        if (!current) {
+          continue;
+        }
+
+        const expected = this.calculateExpected(workspace, folder, kind) ?? {};
+        const updated = this.applyFolderChanges(workspace, folder, kind, expected, current);
+
+        if (!this.merger.deepEqual(updated, folder[kind.key] ?? {})) {
+          updatedFolder = { ...updatedFolder, [kind.key]: updated };
+        }
+      }
+
+      if (updatedFolder === folder) {
+        return false;
+      }
+
+      workspace.folders[folderIndex] = updatedFolder;
+      await this.workspaceConfig.save(workspace);
+
+      this.outputChannel.appendLine(`Reverse synced launch/tasks configurations from ${folder.name || folderPath}`);
+      return true;
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Error in launch/tasks reverse sync for ${folderPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Calculate the configurations a folder inherits (root → defaults → exclude patterns)
+   */
+  private calculateInherited(workspace: WorkspaceFile, kind: ConfigurationFileKind): Settings {
+    const root = (workspace[kind.key] as Settings | undefined) ?? {};
+    const defaults = (workspace.settings[kind.defaultsSetting] as Settings | undefined) ?? {};
+    const excludePatterns = (workspace.settings[kind.excludeSetting] as string[] | undefined) ?? [];
+    const matcher = new PatternMatcher(excludePatterns);
+
+    const inherited = this.mergeConfiguration(root, defaults, kind);
+
+    // Exclude patterns match names/labels (prevents inheritance, but folders can re-add)
+    for (const [section, idKey] of Object.entries(kind.sections)) {
+      if (Array.isArray(inherited[section])) {
+        inherited[section] = (inherited[section] as Settings[]).filter(
+          (entry) => typeof entry[idKey] !== 'string' || !matcher.isExcluded(entry[idKey])
+        );
+      }
+    }
+
+    return inherited;
+  }
+
+  /**
+   * Calculate the configuration file forward sync generates for a folder
+   *
+   * @returns The merged configuration, or null if neither root, defaults nor folder configure it
+   */
+  private calculateExpected(
+    workspace: WorkspaceFile,
+    folder: FolderConfig,
+    kind: ConfigurationFileKind
+  ): Settings | null {
+    const own = folder[kind.key] as Settings | undefined;
+    if (!workspace[kind.key] && !workspace.settings[kind.defaultsSetting] && !own) {
+      return null;
+    }
+
+    return this.mergeConfiguration(this.calculateInherited(workspace, kind), own ?? {}, kind);
+  }
+
+  /**
+   * Merge two configuration objects, matching entries of the array sections by name/label
+   */
+  private mergeConfiguration(base: Settings, override: Settings, kind: ConfigurationFileKind): Settings {
+    const result = this.merger.merge(this.withoutSections(base, kind), this.withoutSections(override, kind));
+
+    for (const [section, idKey] of Object.entries(kind.sections)) {
+      if (base[section] !== undefined || override[section] !== undefined) {
+        result[section] = this.merger.mergeByKey(this.asList(base[section]), this.asList(override[section]), idKey);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply additions, edits and removals found in a folder's file to its folders[].launch/tasks
+   */
+  private applyFolderChanges(
+    workspace: WorkspaceFile,
+    folder: FolderConfig,
+    kind: ConfigurationFileKind,
+    expected: Settings,
+    current: Settings
+  ): Settings {
+    const label = `${folder.name || folder.path}/.vscode/${kind.fileName}`;
+    const inherited = this.calculateInherited(workspace, kind);
+    const own: Settings = structuredClone((folder[kind.key] as Settings | undefined) ?? {});
+
+    // Top-level properties (e.g. version) - removed properties are dropped from the folder entry
+    const topLevelChanges = this.merger.diff(this.withoutSections(expected, kind), this.withoutSections(current, kind));
+    for (const [key, value] of Object.entries(topLevelChanges)) {
+      if (value === null) {
+        delete own[key];
+      } else {
+        own[key] = value;
+      }
+    }
+
+    for (const [section, idKey] of Object.entries(kind.sections)) {
+      const expectedEntries = this.asList(expected[section]);
+      const inheritedEntries = this.asList(inherited[section]);
+      const ownEntries = this.asList(own[section]).map((entry) => structuredClone(entry));
+      const findIndex = (entries: Settings[], id: unknown) => entries.findIndex((entry) => entry[idKey] === id);
+
+      for (const entry of this.asList(current[section])) {
+        const id = entry[idKey];
+        if (id === undefined) {
+          continue; // Entries without a name/label can't be matched
+        }
+
+        const expectedEntry = expectedEntries[findIndex(expectedEntries, id)];
+        const ownIndex = findIndex(ownEntries, id);
+
+        if (!expectedEntry) {
+          // Added in the folder file
+          ownEntries.push(structuredClone(entry));
+          continue;
+        }
+
+        if (this.merger.deepEqual(expectedEntry, entry)) {
+          continue;
+        }
+
+        // Edited in the folder file - record the changed properties as an override
+        const inheritedEntry = inheritedEntries[findIndex(inheritedEntries, id)] ?? {};
+        const override: Settings = ownIndex === -1 ? { [idKey]: id } : ownEntries[ownIndex];
+        for (const [key, value] of Object.entries(this.merger.diff(expectedEntry, entry))) {
+          if (value === null && !(key in inheritedEntry)) {
+            delete override[key];
+          } else {
+            override[key] = value; // null unsets an inherited property
+          }
+        }
+
+        if (ownIndex === -1) {
+          ownEntries.push(override);
+        }
+      }
+
+      // Removed from the folder file - only folder-own entries can be removed here
+      for (const entry of expectedEntries) {
+        const id = entry[idKey];
+        if (id === undefined || findIndex(this.asList(current[section]), id) !== -1) {
+          continue;
+        }
+
+        if (findIndex(inheritedEntries, id) !== -1) {
+          this.outputChannel.appendLine(
+            `"${String(id)}" was removed from ${label} but is inherited from the workspace file (add it to ${kind.excludeSetting} to stop inheriting it)`
+          );
+          continue;
+        }
+
+        const ownIndex = findIndex(ownEntries, id);
+        if (ownIndex !== -1) {
+          ownEntries.splice(ownIndex, 1);
+        }
+      }
+
+      if (ownEntries.length > 0 || own[section] !== undefined) {
+        own[section] = ownEntries;
+      }
+    }
+
+    return own;
+  }
+
+  /**
+   * Read a folder's launch.json or tasks.json
+   */
+  private async readConfigurationFile(folderPath: string, kind: ConfigurationFileKind): Promise<Settings | null> {
+    try {
+      const resolvedPath = await this.workspaceConfig.resolveFolderPath(folderPath);
+      const content = await fs.readFile(path.join(resolvedPath, '.vscode', kind.fileName), 'utf-8');
+      return (jsonc.parse(content) as Settings | undefined) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a configuration to a folder's launch.json or tasks.json
+   *
+   * Existing files are edited in place so comments and hand-written top-level keys (e.g. inputs) are preserved.
+   *
+   * @returns true if the file was changed, false if content was identical
+   */
+  private async writeConfigurationFile(
+    folderPath: string,
+    kind: ConfigurationFileKind,
+    expected: Settings
+  ): Promise<boolean> {
+    const resolvedPath = await this.workspaceConfig.resolveFolderPath(folderPath);
+    const configurationFile = path.join(resolvedPath, '.vscode', kind.fileName);
+
+    let existingContent: string | null = null;
+    try {
+      existingContent = await fs.readFile(configurationFile, 'utf-8');
+    } catch {
+      // File doesn't exist, will be created
+    }
+
+    if (existingContent === null) {
+      return this.workspaceConfig.writeTrackedFile(configurationFile, JSON.stringify(expected, null, 4) + '\n');
+    }
+
+    const existing = (jsonc.parse(existingContent) as Settings | undefined) ?? {};
+    const formattingOptions = detectIndentationStyle(existingContent);
+    let newContent = existingContent;
+
+    for (const [key, value] of Object.entries(expected)) {
+      if (!this.merger.deepEqual(existing[key], value)) {
+        newContent = modifyJsonc(newContent, [key], value, formattingOptions);
+      }
+    }
+
+    return this.workspaceConfig.writeTrackedFile(configurationFile, newContent);
+  }
+
+  /**
+   * Copy a configuration object without its array sections
+   */
+  private withoutSections(configuration: Settings, kind: ConfigurationFileKind): Settings {
+    const result: Settings = {};
+    for (const [key, value] of Object.entries(configuration)) {
+      if (!(key in kind.sections)) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Read an array section, ignoring malformed values
+   */
+  private asList(value: unknown): Settings[] {
+    return Array.isArray(value) ? value.filter((entry) => this.merger.isPlainObject(entry)) : [];
+  }
+}
@@ -5,24 +5,69 @@
  * the workspace file's folders[].settings.
  */
 
-import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as jsonc from 'jsonc-parser';
 import { WorkspaceConfigService } from './workspaceConfig';
 import { SettingsMerger } from './settingsMerger';
+import { SyncManifestService } from './syncManifest';
 import { PatternMatcher } from '../utils/patternMatcher';
-import { SETTINGS_KEYS, WORKSPACE_MANAGER_PREFIX, type Settings, type FolderConfig } from '../types';
+import { EventEmitter, type Event } from '../utils/eventEmitter';
+import { resolveFolderProfiles } from '../utils/profiles';
+import { resolveFolderOverrides } from '../utils/folderOverrides';
+import { getFolderVariables, resolveVariables, unresolveVariables } from '../utils/variables';
+import { flattenLanguageOverrides, unflattenLanguageOverrides } from '../utils/languageOverrides';
+import { getFolderIgnoredScope } from '../utils/settingScopes';
+import {
+  SETTINGS_KEYS,
+  WORKSPACE_MANAGER_PREFIX,
+  type Settings,
+  type FolderConfig,
+  type Logger,
+  type MergeStrategies,
+  type ReverseSyncPlan,
+  type SettingScopeLookup,
+  type SettingsConflict,
+  type SyncEvent,
+} from '../types';
 
 export class ReverseSyncService {
   private workspaceConfig: WorkspaceConfigService;
   private merger: SettingsMerger;
-  private outputChannel: vscode.OutputChannel;
+  private manifest: SyncManifestService;
+  private outputChannel: Logger;
+  private getScope: SettingScopeLookup;
+  private conflictEmitter: EventEmitter<SettingsConflict[]>;
 
-  constructor(workspaceConfig: WorkspaceConfigService, outputChannel: vscode.OutputChannel) {
+  /**
+   * Fired when a sync finds keys changed on both sides since the last sync
+   */
+  readonly onDidDetectConflicts: Event<SettingsConflict[]>;
+
+  private syncEmitter: EventEmitter<SyncEvent>;
+
+  /**
+   * Fired after a folder's changes were written to the workspace file, with the keys that changed
+   */
+  readonly onDidSync: Event<SyncEvent>;
+
+  /**
+   * @param getScope - Registered scope of a setting; settings VS Code ignores at folder level are not pulled
+   */
+  constructor(
+    workspaceConfig: WorkspaceConfigService,
+    outputChannel: Logger,
+    getScope: SettingScopeLookup = () => undefined
+  ) {
     this.workspaceConfig = workspaceConfig;
     this.merger = new SettingsMerger();
+    this.manifest = new SyncManifestService(workspaceConfig);
     this.outputChannel = outputChannel;
+    this.getScope = getScope;
+    this.conflictEmitter = new EventEmitter(outputChannel);
+    this.onDidDetectConflicts = this.conflictEmitter.event;
+    this.syncEmitter = new EventEmitter(outputChannel);
+    this.onDidSync = this.syncEmitter.event;
   }
 
   /**
@@ -32,64 +77,35 @@ export class ReverseSyncService {
    */
   async syncFolderToWorkspace(folderPath: string): Promise<boolean> {
     try {
-      const workspace = await this.workspaceConfig.load();
-      const folder = workspace.folders.find((f) => f.path === folderPath);
-
-      if (!folder) {
-        this.outputChannel.appendLine(`Reverse sync skipped: folder not found - ${folderPath}`);
+      const plan = await this.planFolderSync(folderPath);
+      if (!plan) {
         return false;
       }
 
-      // Skip root folder (comparing resolved paths)
-      const isRoot = await this.workspaceConfig.isWorkspaceRoot(folderPath);
-      if (isRoot) {
-        this.outputChannel.appendLine('Reverse sync skipped: root folder');
-        return false;
+      if (plan.conflicts.length > 0) {
+        this.conflictEmitter.fire(plan.conflicts);
       }
 
-      // Check if reverse sync is enabled (folder setting has precedence over root)
-      const folderReverseSyncEnabled = folder.settings?.[SETTINGS_KEYS.reverseSyncEnabled];
-      const rootReverseSyncEnabled = workspace.settings[SETTINGS_KEYS.reverseSyncEnabled];
-
-      const isEnabled = folderReverseSyncEnabled ?? rootReverseSyncEnabled ?? true;
-
-      if (!isEnabled) {
+      // If no changes, skip
+      if (Object.keys(plan.diff).length === 0) {
         this.outputChannel.appendLine(
-          `Reverse sync skipped for ${folder.name || folderPath}: reverseSync.enabled is false`
+          `Reverse sync skipped for ${plan.folder.name || folderPath}: no changes detected`
         );
         return false;
       }
 
-      // Get exclude patterns (folder + root merged)
-      const rootExclude = (workspace.settings[SETTINGS_KEYS.reverseSyncFolderSettingsExclude] as string[]) ?? [];
-      const folderExclude = (folder.settings?.[SETTINGS_KEYS.reverseSyncFolderSettingsExclude] as string[]) ?? [];
-      const matcher = new PatternMatcher([...rootExclude, ...folderExclude]);
-
-      // Read current .vscode/settings.json
-      const currentSettings = await this.readSettingsJson(folderPath);
-      if (!currentSettings) {
-        this.outputChannel.appendLine(`Reverse sync skipped for ${folder.name || folderPath}: no settings.json found`);
-        return false;
-      }
-
-      // Calculate what forward sync would generate
-      const expectedSettings = this.calculateExpectedSettings(workspace.settings, folder);
-
-      // Find differences (settings changed in UI)
-      const diff = this.calculateFilteredDiff(expectedSettings, currentSettings, matcher);
-
-      // If no changes, skip
-      if (Object.keys(diff).length === 0) {
-        this.outputChannel.appendLine(`Reverse sync skipped for ${folder.name || folderPath}: no changes detected`);
-        return false;
-      }
-
       // Update folder.settings in workspace file
-      await this.updateFolderSettings(folderPath, folder, diff);
+      await this.workspaceConfig.updateFolderSettings(folderPath, this.toFolderChanges(plan.diff));
+      if (plan.base) {
+        await this.manifest.setBaseSettings(folderPath, plan.base);
+      }
 
       this.outputChannel.appendLine(
-        `Reverse synced ${Object.keys(diff).length} setting(s) from ${folder.name || folderPath}`
+        `Reverse synced ${Object.keys(plan.diff).length} setting(s) from ${plan.folder.name || folderPath}`
       );
+      this.syncEmitter.fire({
+        folders: [{ path: plan.folder.path, name: plan.folder.name, changedKeys: Object.keys(plan.diff) }],
+      });
       return true;
     } catch (error) {
       this.outputChannel.appendLine(
@@ -99,6 +115,155 @@ export class ReverseSyncService {
     }
   }
 
+  /**
+   * Compute the workspace file content reverse sync would write for a folder, without writing it
+   *
+   * @returns Original and updated workspace file content, or null if there is nothing to sync
+   */
+  async previewFolderToWorkspace(
+    folderPath: string
+  ): Promise<{ plan: ReverseSyncPlan; original: string; modified: string } | null> {
+    const plan = await this.planFolderSync(folderPath);
+    if (!plan || Object.keys(plan.diff).length === 0) {
+      return null;
+    }
+
+    const { original, modified } = await this.workspaceConfig.renderFolderSettingsUpdate(
+      folderPath,
+      this.toFolderChanges(plan.diff)
+    );
+    return { plan, original, modified };
+  }
+
+  /**
+   * Compute the changes reverse sync would apply to a folder's settings in the workspace file
+   *
+   * @returns The plan (with an empty diff if nothing changed), or null if reverse sync doesn't apply
+   */
+  async planFolderSync(folderPath: string): Promise<ReverseSyncPlan | null> {
+    const workspace = await this.workspaceConfig.load();
+    const rootSettings = await this.workspaceConfig.resolveRootSettings(workspace.settings);
+    const folder = workspace.folders.find((f) => f.path === folderPath);
+
+    if (!folder) {
+      this.outputChannel.appendLine(`Reverse sync skipped: folder not found - ${folderPath}`);
+      return null;
+    }
+
+    // Skip root folder (comparing resolved paths)
+    const isRoot = await this.workspaceConfig.isWorkspaceRoot(folderPath);
+    if (isRoot) {
+      this.outputChannel.appendLine('Reverse sync skipped: root folder');
+      return null;
+    }
+
+    // Check if reverse sync is enabled (folder setting has precedence over root)
+    const folderReverseSyncEnabled = folder.settings?.[SETTINGS_KEYS.reverseSyncEnabled];
+    const rootReverseSyncEnabled = rootSettings[SETTINGS_KEYS.reverseSyncEnabled];
+
+    const isEnabled = folderReverseSyncEnabled ?? rootReverseSyncEnabled ?? true;
+
+    if (!isEnabled) {
+      this.outputChannel.appendLine(
+        `Reverse sync skipped for ${folder.name || folderPath}: reverseSync.enabled is false`
+      );
+      return null;
+    }
+
+    // Get exclude patterns (folder + root merged)
+    const rootExclude = (rootSettings[SETTINGS_KEYS.reverseSyncFolderSettingsExclude] as string[]) ?? [];
+    const folderExclude = (folder.settings?.[SETTINGS_KEYS.reverseSyncFolderSettingsExclude] as string[]) ?? [];
+    const matcher = new PatternMatcher([...rootExclude, ...folderExclude]);
+    const strategies = (rootSettings[SETTINGS_KEYS.syncMergeStrategies] as MergeStrategies) ?? {};
+
+    // Read current .vscode/settings.json
+    const currentSettings = await this.readSettingsJson(folderPath);
+    if (!currentSettings) {
+      this.outputChannel.appendLine(`Reverse sync skipped for ${folder.name || folderPath}: no settings.json found`);
+      return null;
+    }
+
+    // Calculate what forward sync would generate
+    // (values with ${workspaceManager:*} variables are compared in their resolved form)
+    const variables = getFolderVariables(folder, this.workspaceConfig.getWorkspaceDir() ?? '');
+    const expectedTemplate = this.calculateExpectedSettings(rootSettings, folder, strategies);
+    const expectedSettings = resolveVariables(expectedTemplate, variables);
+
+    // Find differences (settings changed in UI) - entries of language blocks are diffed individually
+    const diff = this.calculateFilteredDiff(expectedSettings, currentSettings, matcher, strategies);
+
+    // Settings VS Code ignores in folder settings (application, machine and window scope) are not pulled
+    for (const key of Object.keys(diff)) {
+      const scope = getFolderIgnoredScope(key, this.getScope);
+      if (scope) {
+        this.outputChannel.appendLine(
+          `Reverse sync skipped "${key}" for ${folder.name || folderPath}: ${scope}-scoped settings have no effect in folder settings`
+        );
+        delete diff[key];
+      }
+    }
+
+    // Three-way comparison against the last-synced base: only pull keys the folder actually changed
+    const previousBase = await this.manifest.getBaseSettings(folderPath);
+    const conflicts: SettingsConflict[] = [];
+    let base: Settings | null = null;
+
+    if (previousBase) {
+      const normalizedBase = this.merger.flattenSettings(previousBase);
+      const normalizedExpected = this.merger.flattenSettings(expectedSettings);
+      const normalizedCurrent = this.merger.flattenSettings(currentSettings);
+      const comparison = this.merger.compareThreeWay(normalizedBase, normalizedExpected, normalizedCurrent);
+
+      for (const key of Object.keys(diff)) {
+        if (comparison.conflicts.includes(key)) {
+          conflicts.push({
+            folder,
+            key,
+            baseValue: normalizedBase[key],
+            workspaceValue: normalizedExpected[key],
+            folderValue: normalizedCurrent[key],
+          });
+          this.outputChannel.appendLine(
+            `Conflict in ${folder.name || folderPath}: "${key}" changed in both the workspace file and .vscode/settings.json, left unchanged`
+          );
+          delete diff[key];
+        } else if (comparison.workspaceChanged.includes(key)) {
+          // The folder still has the old value - the workspace file is newer
+          delete diff[key];
+        }
+      }
+
+      // Record the pulled values as the new base
+      const updatedBase = { ...normalizedBase };
+      for (const key of Object.keys(diff)) {
+        if (key in normalizedCurrent) {
+          updatedBase[key] = normalizedCurrent[key];
+        } else {
+          delete updatedBase[key];
+        }
+      }
+      base = unflattenLanguageOverrides(updatedBase);
+    }
+
+    // Map resolved variable values back to their templated form (e.g. "${workspaceManager:folderPath}/.venv")
+    const flatTemplate = this.merger.flattenSettings(expectedTemplate);
+    for (const [key, value] of Object.entries(diff)) {
+      if (value !== null) {
+        diff[key] = unresolveVariables(value, flatTemplate[key], variables);
+      }
+    }
+
+    // Arrays merged with union/append/prepend: record the items on top of the folder's own additions and removals
+    const folderSettings = flattenLanguageOverrides(folder.settings ?? {});
+    for (const [key, value] of Object.entries(diff)) {
+      if (value !== null && this.merger.isArrayStrategy(this.merger.getMergeStrategy(key, strategies))) {
+        diff[key] = this.merger.applyArrayChange(folderSettings[key], value as unknown[]);
+      }
+    }
+
+    return { folder, diff, conflicts, base };
+  }
+
   /**
    * Read a folder's .vscode/settings.json
    */
@@ -117,9 +282,13 @@ export class ReverseSyncService {
   /**
    * Calculate what forward sync would generate for this folder
    *
-   * Merge order: Root settings → subFolderSettings.defaults → filter rootSettings.exclude → folders[].settings
+   * Merge order: Extended files → Root settings → subFolderSettings.defaults → filter rootSettings.exclude → profiles → folderOverrides → folders[].settings
    */
-  private calculateExpectedSettings(globalSettings: Settings, folder: FolderConfig): Settings {
+  private calculateExpectedSettings(
+    globalSettings: Settings,
+    folder: FolderConfig,
+    strategies: MergeStrategies
+  ): Settings {
     // 1. Remove workspaceManager.* keys from root
     const rootWithoutWM: Settings = {};
     for (const [key, value] of Object.entries(globalSettings)) {
@@ -130,19 +299,24 @@ export class ReverseSyncService {
 
     // 2. Merge with subFolderSettings.defaults
     const subFolderDefaults = (globalSettings[SETTINGS_KEYS.syncSubFolderSettingsDefaults] as Settings) ?? {};
-    const withDefaults = this.merger.merge(rootWithoutWM, subFolderDefaults);
+    const withDefaults = this.merger.merge(rootWithoutWM, subFolderDefaults, strategies);
 
-    // 3. Apply rootSettings.exclude (filter - "don't inherit")
+    // 3. Apply rootSettings.exclude (filter - "don't inherit", entries of language blocks matched as "[language].setting")
     const excludePatterns = (globalSettings[SETTINGS_KEYS.syncRootSettingsExclude] as string[]) ?? [];
     const matcher = new PatternMatcher(excludePatterns);
-    const filtered: Settings = {};
-    for (const [key, value] of Object.entries(withDefaults)) {
-      if (!matcher.isExcluded(key)) {
-        filtered[key] = value;
-      }
-    }
-
-    // 4. Merge with folder settings (also filter workspaceManager.* from folder settings)
+    const filtered = unflattenLanguageOverrides(matcher.filterSettings(this.merger.flattenSettings(withDefaults)));
+
+    // 4. Merge the profiles the folder opts into (in the listed order), then matching folder overrides
+    const layers = [
+      ...resolveFolderProfiles(globalSettings, folder.settings),
+      ...resolveFolderOverrides(globalSettings, folder),
+    ];
+    const withLayers = layers.reduce<Settings>(
+      (settings, layer) => this.merger.merge(settings, layer, strategies),
+      filtered
+    );
+
+    // 5. Merge with folder settings (also filter workspaceManager.* from folder settings)
     const filteredFolderSettings: Settings = {};
     if (folder.settings) {
       for (const [key, value] of Object.entries(folder.settings)) {
@@ -152,14 +326,24 @@ export class ReverseSyncService {
       }
     }
 
-    return this.merger.merge(filtered, filteredFolderSettings);
+    return this.merger.merge(withLayers, filteredFolderSettings, strategies);
   }
 
   /**
    * Calculate diff between expected and current settings, filtering excluded keys
+   *
+   * Nested entries excluded by sub-key patterns (e.g. "search.exclude.**\/node_modules")
+   * keep their workspace value, so only the other entries of the object are synced back.
+   * Array changes (see SettingsMerger.diff) are kept as they are.
    */
-  private calculateFilteredDiff(expected: Settings, current: Settings, matcher: PatternMatcher): Settings {
-    const diff = this.merger.diff(expected, current);
+  private calculateFilteredDiff(
+    expected: Settings,
+    current: Settings,
+    matcher: PatternMatcher,
+    strategies: MergeStrategies
+  ): Settings {
+    const diff = this.merger.diff(expected, current, strategies);
+    const flatExpected = this.merger.flattenSettings(expected);
 
     // Filter out excluded patterns and workspaceManager.* keys
     const filteredDiff: Settings = {};
@@ -170,44 +354,80 @@ export class ReverseSyncService {
       if (matcher.isExcluded(key)) {
         continue;
       }
-      filteredDiff[key] = value;
+      if (this.merger.isArrayStrategy(this.merger.getMergeStrategy(key, strategies))) {
+        filteredDiff[key] = value;
+        continue;
+      }
+
+      const filteredValue = this.keepExcludedEntries(key, flatExpected[key], value, matcher, []);
+      if (this.merger.deepEqual(filteredValue, flatExpected[key])) {
+        continue; // Only excluded entries changed
+      }
+      filteredDiff[key] = filteredValue;
     }
 
     return filteredDiff;
   }
 
   /**
-   * Update folder settings in the workspace file
+   * Replace changes to excluded nested entries of an object value with their expected value
    */
-  private async updateFolderSettings(folderPath: string, folder: FolderConfig, diff: Settings): Promise<void> {
-    const workspace = await this.workspaceConfig.load();
+  private keepExcludedEntries(
+    path: string,
+    expected: unknown,
+    current: unknown,
+    matcher: PatternMatcher,
+    parents: string[]
+  ): unknown {
+    if (!this.merger.isPlainObject(current)) {
+      return current;
+    }
+
+    const expectedObject = this.merger.isPlainObject(expected) ? expected : {};
+    const subParents = [...parents, path];
+    const result: Settings = {};
 
-    const folderIndex = workspace.folders.findIndex((f) => f.path === folderPath);
-    if (folderIndex === -1) {
-      throw new Error(`Folder not found: ${folderPath}`);
+    for (const [subKey, value] of Object.entries(current)) {
+      const subPath = `${path}.${subKey}`;
+      if (!matcher.isExcluded(subPath, subParents)) {
+        result[subKey] = this.keepExcludedEntries(subPath, expectedObject[subKey], value, matcher, subParents);
+      } else if (subKey in expectedObject) {
+        result[subKey] = structuredClone(expectedObject[subKey]);
+      }
+    }
+
+    // Excluded entries removed in the folder are kept as well
+    for (const [subKey, value] of Object.entries(expectedObject)) {
+      if (!(subKey in current) && matcher.isExcluded(`${path}.${subKey}`, subParents)) {
+        result[subKey] = structuredClone(value);
+      }
     }
 
-    // Get current folder settings
-    const currentFolderSettings = folder.settings ?? {};
+    return result;
+  }
 
-    // Apply diff to folder settings
-    const newFolderSettings: Settings = { ...currentFolderSettings };
+  /**
+   * Convert a reverse sync diff into folder settings changes
+   *
+   * Only the keys present in the diff are edited, so the rest of the file keeps its formatting.
+   * Entries of language blocks ("[python].editor.tabSize") are edited inside the block.
+   */
+  private toFolderChanges(diff: Settings): Settings {
+    const changes: Settings = {};
 
     for (const [key, value] of Object.entries(diff)) {
-      if (value === null) {
-        // User removed this setting
-        delete newFolderSettings[key];
-      } else {
-        newFolderSettings[key] = value;
-      }
+      // null means the user removed this setting - undefined removes the key from the file
+      changes[key] = value === null ? undefined : value;
     }
 
-    // Update folder in workspace
-    workspace.folders[folderIndex] = {
-      ...folder,
-      settings: newFolderSettings,
-    };
+    return changes;
+  }
 
-    await this.workspaceConfig.save(workspace);
+  /**
+   * Dispose the event emitters
+   */
+  dispose(): void {
+    this.conflictEmitter.dispose();
+    this.syncEmitter.dispose();
   }
 }
@@ -4,29 +4,61 @@
  * Handles deep merging of settings objects with support for:
  * - Deep merging nested objects
  * - null values to remove keys from merged output
- * - Array replacement (not merging)
+ * - Array replacement (not merging), or union/append/prepend per configured merge strategy
+ * - Merging lists of named entries by id (launch configurations, tasks)
+ * - Language override blocks ("[python]", "[typescript][javascript]")
  */
 
-import type { Settings } from '../types';
+import picomatch from 'picomatch';
+import {
+  escapeLanguageOverridePattern,
+  flattenLanguageOverrides,
+  getOverrideLanguages,
+  isLanguageOverrideKey,
+  splitOverrideEntryKey,
+  unflattenLanguageOverrides,
+} from '../utils/languageOverrides';
+import type { ArrayPatch, MergeStrategies, MergeStrategy, Settings } from '../types';
 
 export class SettingsMerger {
   /**
    * Deep merge two settings objects
    *
+   * Multi-language override blocks are expanded first, so "[typescript][javascript]" merges with "[typescript]".
+   * The result contains single-language blocks only (see recombineLanguageOverrides).
+   *
    * @param base - Base settings (e.g., root workspace settings)
    * @param override - Override settings (e.g., folder-specific settings)
+   * @param strategies - Merge strategies by key pattern (workspaceManager.sync.mergeStrategies)
    * @returns Merged settings object
    */
-  merge(base: Settings, override: Settings): Settings {
+  merge(base: Settings, override: Settings, strategies: MergeStrategies = {}): Settings {
+    return this.mergeObjects(
+      this.expandLanguageOverrides(base),
+      this.expandLanguageOverrides(override),
+      strategies,
+      ''
+    );
+  }
+
+  /**
+   * Deep merge two objects, applying merge strategies by key path (e.g. "[python].cSpell.words")
+   */
+  private mergeObjects(base: Settings, override: Settings, strategies: MergeStrategies, pathPrefix: string): Settings {
     const result = structuredClone(base);
 
     for (const [key, value] of Object.entries(override)) {
+      const strategy = this.getMergeStrategy(pathPrefix + key, strategies);
+
       if (value === null) {
         // null means "remove from merged output"
         delete result[key];
-      } else if (this.isPlainObject(value) && this.isPlainObject(result[key])) {
+      } else if (this.isArrayStrategy(strategy) && (Array.isArray(value) || this.isArrayPatch(value))) {
+        // Combine arrays (folder value lists additions and removals)
+        result[key] = this.mergeArrays(Array.isArray(result[key]) ? result[key] : [], value, strategy);
+      } else if (strategy !== 'replace' && this.isPlainObject(value) && this.isPlainObject(result[key])) {
         // Deep merge objects
-        result[key] = this.merge(result[key] as Settings, value as Settings);
+        result[key] = this.mergeObjects(result[key] as Settings, value, strategies, `${pathPrefix}${key}.`);
       } else {
         // Replace value (including arrays)
         result[key] = structuredClone(value);
@@ -36,10 +68,249 @@ export class SettingsMerger {
     return result;
   }
 
+  /**
+   * Get the merge strategy for a key (exact keys first, then patterns in definition order)
+   *
+   * Entries of language blocks ("[python].cSpell.words") fall back to the strategy of the setting itself.
+   *
+   * @returns The configured strategy, or "deep" (objects merged, arrays replaced)
+   */
+  getMergeStrategy(key: string, strategies: MergeStrategies): MergeStrategy {
+    if (Object.hasOwn(strategies, key)) {
+      return strategies[key];
+    }
+
+    for (const [pattern, strategy] of Object.entries(strategies)) {
+      if (picomatch.isMatch(key, escapeLanguageOverridePattern(pattern))) {
+        return strategy;
+      }
+    }
+
+    const entry = splitOverrideEntryKey(key);
+    return entry ? this.getMergeStrategy(entry.setting, strategies) : 'deep';
+  }
+
+  /**
+   * Check if a strategy combines arrays instead of replacing them
+   */
+  isArrayStrategy(strategy: MergeStrategy): strategy is 'union' | 'append' | 'prepend' {
+    return strategy === 'union' || strategy === 'append' || strategy === 'prepend';
+  }
+
+  /**
+   * Check if a value is an { add, remove } array patch
+   */
+  isArrayPatch(value: unknown): value is ArrayPatch {
+    return (
+      this.isPlainObject(value) &&
+      Object.keys(value).length > 0 &&
+      Object.entries(value).every(([key, items]) => (key === 'add' || key === 'remove') && Array.isArray(items))
+    );
+  }
+
+  /**
+   * Combine an inherited array with a folder's additions and removals
+   */
+  private mergeArrays(
+    base: unknown[],
+    change: unknown[] | ArrayPatch,
+    strategy: 'union' | 'append' | 'prepend'
+  ): unknown[] {
+    const { add, remove } = this.toArrayPatch(change);
+    const kept = base.filter((item) => !remove.some((removed) => this.deepEqual(removed, item)));
+
+    switch (strategy) {
+      case 'union': {
+        const result = [...kept];
+        for (const item of add) {
+          if (!result.some((existing) => this.deepEqual(existing, item))) {
+            result.push(item);
+          }
+        }
+        return structuredClone(result);
+      }
+      case 'append':
+        return structuredClone([...kept, ...add]);
+      case 'prepend':
+        return structuredClone([...add, ...kept]);
+    }
+  }
+
+  /**
+   * Apply a change found by diff() to the additions and removals a folder already records
+   *
+   * Removing an item the folder added drops the addition; re-adding an inherited item
+   * the folder removed drops the removal.
+   *
+   * @param existing - Current folder value (array, array patch or undefined)
+   * @param change - Change reported by diff()
+   * @returns The new folder value (a plain array when nothing is removed)
+   */
+  applyArrayChange(existing: unknown, change: unknown[] | ArrayPatch): unknown[] | ArrayPatch {
+    const current = Array.isArray(existing) || this.isArrayPatch(existing) ? this.toArrayPatch(existing) : undefined;
+    const add = [...(current?.add ?? [])];
+    const remove = [...(current?.remove ?? [])];
+    const indexIn = (items: unknown[], item: unknown) => items.findIndex((other) => this.deepEqual(other, item));
+
+    const patch = this.toArrayPatch(change);
+    for (const item of patch.remove) {
+      const index = indexIn(add, item);
+      if (index !== -1) {
+        add.splice(index, 1);
+      } else if (indexIn(remove, item) === -1) {
+        remove.push(item);
+      }
+    }
+    for (const item of patch.add) {
+      const index = indexIn(remove, item);
+      if (index !== -1) {
+        remove.splice(index, 1);
+      } else {
+        add.push(item);
+      }
+    }
+
+    return remove.length > 0 ? { add, remove } : add;
+  }
+
+  /**
+   * Normalize an array (shorthand for additions) or array patch to { add, remove }
+   */
+  private toArrayPatch(change: unknown[] | ArrayPatch): { add: unknown[]; remove: unknown[] } {
+    return Array.isArray(change) ? { add: change, remove: [] } : { add: change.add ?? [], remove: change.remove ?? [] };
+  }
+
+  /**
+   * Merge two lists of named entries (launch configurations, tasks)
+   *
+   * Entries are matched by the value of `idKey` (e.g. "name" or "label") and deep merged
+   * with `merge()`. Unmatched override entries, and entries without an id, are appended.
+   *
+   * @param base - Base entries (e.g., root workspace launch configurations)
+   * @param override - Override entries (e.g., folder-specific launch configurations)
+   * @param idKey - Property identifying an entry
+   * @returns Merged list of entries
+   */
+  mergeByKey(base: Settings[], override: Settings[], idKey: string): Settings[] {
+    const result = base.map((entry) => structuredClone(entry));
+
+    for (const entry of override) {
+      const index = entry[idKey] === undefined ? -1 : result.findIndex((r) => r[idKey] === entry[idKey]);
+      if (index === -1) {
+        result.push(this.merge({}, entry));
+      } else {
+        result[index] = this.merge(result[index], entry);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Expand multi-language override blocks into one block per language
+   *
+   * "[typescript][javascript]": {...} becomes "[typescript]": {...} and "[javascript]": {...}.
+   * Entries of a single-language block take precedence over a multi-language block.
+   */
+  expandLanguageOverrides(settings: Settings): Settings {
+    const result: Settings = {};
+    const singleLanguageKeys = new Set<string>();
+
+    for (const [key, value] of Object.entries(settings)) {
+      const languages = isLanguageOverrideKey(key) ? getOverrideLanguages(key) : [];
+
+      if (languages.length <= 1) {
+        result[key] =
+          this.isPlainObject(result[key]) && this.isPlainObject(value) ? { ...result[key], ...value } : value;
+        singleLanguageKeys.add(key);
+        continue;
+      }
+
+      for (const language of languages) {
+        const languageKey = `[${language}]`;
+        const existing = result[languageKey];
+
+        if (this.isPlainObject(existing) && this.isPlainObject(value)) {
+          result[languageKey] = singleLanguageKeys.has(languageKey)
+            ? { ...value, ...existing }
+            : { ...existing, ...value };
+        } else if (existing === undefined || !singleLanguageKeys.has(languageKey)) {
+          result[languageKey] = value;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Recombine expanded language blocks into the multi-language headers used in the sources
+   *
+   * Entries shared by all languages of a header (e.g. "[typescript][javascript]") are moved
+   * into a block with that header; language-specific entries stay in single-language blocks.
+   *
+   * @param settings - Merged settings with single-language blocks
+   * @param sources - Settings the result was merged from (provide the headers to restore)
+   */
+  recombineLanguageOverrides(settings: Settings, sources: Settings[]): Settings {
+    const result = { ...settings };
+    const headers = new Set(
+      sources.flatMap((source) =>
+        Object.keys(source).filter((key) => isLanguageOverrideKey(key) && getOverrideLanguages(key).length > 1)
+      )
+    );
+
+    for (const header of headers) {
+      const languageKeys = getOverrideLanguages(header).map((language) => `[${language}]`);
+      const blocks = languageKeys.map((key) => result[key]);
+      if (!blocks.every((block) => this.isPlainObject(block))) {
+        continue;
+      }
+
+      const [first, ...rest] = blocks as Settings[];
+      const common: Settings = {};
+      for (const [key, value] of Object.entries(first)) {
+        if (rest.every((block) => key in block && this.deepEqual(block[key], value))) {
+          common[key] = value;
+        }
+      }
+
+      if (Object.keys(common).length === 0) {
+        continue;
+      }
+
+      result[header] = common;
+      for (const [index, languageKey] of languageKeys.entries()) {
+        const remaining = { ...(blocks[index] as Settings) };
+        for (const key of Object.keys(common)) {
+          delete remaining[key];
+        }
+
+        if (Object.keys(remaining).length > 0) {
+          result[languageKey] = remaining;
+        } else {
+          delete result[languageKey];
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize settings to one key per setting for comparisons
+   *
+   * Multi-language blocks are expanded and language blocks flattened, so an entry
+   * inside "[python]" is compared as "[python].editor.tabSize".
+   */
+  flattenSettings(settings: Settings): Settings {
+    return flattenLanguageOverrides(this.expandLanguageOverrides(unflattenLanguageOverrides(settings)));
+  }
+
   /**
    * Check if a value is a plain object (not an array or null)
    */
-  private isPlainObject(value: unknown): value is Record<string, unknown> {
+  isPlainObject(value: unknown): value is Record<string, unknown> {
     return typeof value === 'object' && value !== null && !Array.isArray(value);
   }
 
@@ -48,21 +319,44 @@ export class SettingsMerger {
    *
    * Returns the settings in `current` that differ from `expected`.
    * This is used for reverse sync to find what the user changed.
+   * Changes inside language blocks are reported per entry (e.g. "[python].editor.formatOnSave").
+   * Arrays merged with union/append/prepend are reported as added and removed items
+   * (a plain array of additions, or { add, remove }), to be applied with applyArrayChange().
    *
-   * @param expected - The expected settings (what forward sync would generate)
-   * @param current - The current settings (from .vscode/settings.json)
+   * @param expectedSettings - The expected settings (what forward sync would generate)
+   * @param currentSettings - The current settings (from .vscode/settings.json)
+   * @param strategies - Merge strategies by key pattern (workspaceManager.sync.mergeStrategies)
    * @returns Settings that differ from expected
    */
-  diff(expected: Settings, current: Settings): Settings {
+  diff(expectedSettings: Settings, currentSettings: Settings, strategies: MergeStrategies = {}): Settings {
+    const expected = this.flattenSettings(expectedSettings);
+    const current = this.flattenSettings(currentSettings);
     const result: Settings = {};
 
     // Find keys in current that differ from expected
     for (const [key, currentValue] of Object.entries(current)) {
       const expectedValue = expected[key];
 
-      if (!this.deepEqual(currentValue, expectedValue)) {
-        result[key] = structuredClone(currentValue);
+      if (this.deepEqual(currentValue, expectedValue)) {
+        continue;
       }
+
+      if (
+        this.isArrayStrategy(this.getMergeStrategy(key, strategies)) &&
+        Array.isArray(expectedValue) &&
+        Array.isArray(currentValue)
+      ) {
+        const add = currentValue.filter((item) => !expectedValue.some((other) => this.deepEqual(other, item)));
+        const remove = expectedValue.filter((item) => !currentValue.some((other) => this.deepEqual(other, item)));
+        if (remove.length > 0) {
+          result[key] = structuredClone({ add, remove });
+        } else if (add.length > 0) {
+          result[key] = structuredClone(add);
+        }
+        continue; // Reordered only
+      }
+
+      result[key] = structuredClone(currentValue);
     }
 
     // Find keys in expected that are missing in current (removed by user)
@@ -76,10 +370,48 @@ export class SettingsMerger {
     return result;
   }
 
+  /**
+   * Three-way comparison of a last-synced base against the workspace and folder sides
+   *
+   * Keys are compared in flattened form (see flattenSettings), so entries of language blocks are compared separately.
+   *
+   * @param baseSettings - Settings both sides agreed on after the last sync
+   * @param workspaceSettings - Settings the workspace file currently generates
+   * @param folderSettings - Settings currently in .vscode/settings.json
+   * @returns Keys changed only in the workspace, only in the folder, or differently on both sides
+   */
+  compareThreeWay(
+    baseSettings: Settings,
+    workspaceSettings: Settings,
+    folderSettings: Settings
+  ): { workspaceChanged: string[]; folderChanged: string[]; conflicts: string[] } {
+    const base = this.flattenSettings(baseSettings);
+    const workspace = this.flattenSettings(workspaceSettings);
+    const folder = this.flattenSettings(folderSettings);
+    const result = { workspaceChanged: [] as string[], folderChanged: [] as string[], conflicts: [] as string[] };
+    const keys = new Set([...Object.keys(base), ...Object.keys(workspace), ...Object.keys(folder)]);
+
+    for (const key of keys) {
+      if (this.deepEqual(workspace[key], folder[key])) {
+        continue; // Both sides agree
+      }
+
+      if (this.deepEqual(base[key], folder[key])) {
+        result.workspaceChanged.push(key);
+      } else if (this.deepEqual(base[key], workspace[key])) {
+        result.folderChanged.push(key);
+      } else {
+        result.conflicts.push(key);
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Deep equality check for two values
    */
-  private deepEqual(a: unknown, b: unknown): boolean {
+  deepEqual(a: unknown, b: unknown): boolean {
     if (a === b) return true;
     if (typeof a !== typeof b) return false;
     if (a === null || b === null) return a === b;
@@ -0,0 +1,200 @@
+/**
+ * Settings provenance service
+ *
+ * Explains where each setting of a folder comes from by walking the forward sync merge chain
+ * layer by layer: extended files → root → subFolderSettings.defaults → rootSettings.exclude →
+ * profiles → folderOverrides → folders[].settings.
+ */
+
+import { WorkspaceConfigService } from './workspaceConfig';
+import { ForwardSyncService } from './forwardSync';
+import { SettingsMerger } from './settingsMerger';
+import { PatternMatcher } from '../utils/patternMatcher';
+import { toSettingsPath } from '../utils/languageOverrides';
+import { getFolderProfileNames, getProfiles } from '../utils/profiles';
+import { getFolderOverrides, matchesFolder } from '../utils/folderOverrides';
+import {
+  SETTINGS_KEYS,
+  WORKSPACE_MANAGER_PREFIX,
+  type FolderConfig,
+  type Settings,
+  type SettingLocation,
+  type SettingProvenance,
+  type SettingSource,
+} from '../types';
+
+/**
+ * One layer of the merge chain
+ */
+interface ProvenanceLayer {
+  source: SettingSource;
+  detail?: string;
+  settings: Settings;
+  /** Location of a key inside this layer */
+  locate: (key: string) => SettingLocation;
+}
+
+/**
+ * Human readable name of a merge chain layer (e.g. 'profile "python"')
+ */
+export function getSourceLabel(source: SettingSource, detail?: string): string {
+  switch (source) {
+    case 'extends':
+      return `extended file ${detail}`;
+    case 'root':
+      return 'root settings';
+    case 'defaults':
+      return 'subFolderSettings.defaults';
+    case 'profile':
+      return `profile "${detail}"`;
+    case 'folderOverride':
+      return `folder override "${detail}"`;
+    case 'folder':
+      return 'folder settings';
+  }
+}
+
+export class SettingsProvenanceService {
+  private workspaceConfig: WorkspaceConfigService;
+  private forwardSync: ForwardSyncService;
+  private merger: SettingsMerger;
+
+  constructor(workspaceConfig: WorkspaceConfigService, forwardSync: ForwardSyncService) {
+    this.workspaceConfig = workspaceConfig;
+    this.forwardSync = forwardSync;
+    this.merger = new SettingsMerger();
+  }
+
+  /**
+   * Explain the settings of every non-root folder
+   */
+  async explainAll(): Promise<{ folder: FolderConfig; settings: SettingProvenance[] }[]> {
+    const workspace = await this.workspaceConfig.load();
+    const result: { folder: FolderConfig; settings: SettingProvenance[] }[] = [];
+
+    for (const folder of workspace.folders) {
+      if (await this.workspaceConfig.isWorkspaceRoot(folder.path)) {
+        continue;
+      }
+      result.push({ folder, settings: (await this.explainFolder(folder.path)) ?? [] });
+    }
+
+    return result;
+  }
+
+  /**
+   * Explain where each setting of a folder comes from
+   *
+   * @param folderPath - Folder path as written in the workspace file
+   * @returns One entry per key (sorted), or undefined if the folder doesn't exist
+   */
+  async explainFolder(folderPath: string): Promise<SettingProvenance[] | undefined> {
+    const workspacePath = this.workspaceConfig.getWorkspacePath();
+    const workspace = await this.workspaceConfig.load();
+    const folderIndex = workspace.folders.findIndex((f) => f.path === folderPath);
+    if (!workspacePath || folderIndex === -1) {
+      return undefined;
+    }
+
+    const folder = workspace.folders[folderIndex];
+    const rootSettings = await this.workspaceConfig.resolveRootSettings(workspace.settings);
+    const inWorkspace =
+      (...prefix: (string | number)[]) =>
+      (key: string): SettingLocation => ({ filePath: workspacePath, path: [...prefix, ...toSettingsPath(key)] });
+
+    // Layers before rootSettings.exclude
+    const inherited: ProvenanceLayer[] = [
+      ...(await this.workspaceConfig.loadExtendedSettings(workspace.settings)).map((file) => ({
+        source: 'extends' as const,
+        detail: file.entry,
+        settings: file.settings ?? {},
+        locate: (key: string) => ({ filePath: file.filePath, path: toSettingsPath(key) }),
+      })),
+      { source: 'root', settings: workspace.settings, locate: inWorkspace('settings') },
+      {
+        source: 'defaults',
+        settings: (rootSettings[SETTINGS_KEYS.syncSubFolderSettingsDefaults] as Settings) ?? {},
+        locate: inWorkspace('settings', SETTINGS_KEYS.syncSubFolderSettingsDefaults),
+      },
+    ];
+
+    // Layers after rootSettings.exclude
+    const profiles = getProfiles(rootSettings);
+    const folderOverrides = getFolderOverrides(rootSettings);
+    const ownLayers: ProvenanceLayer[] = [
+      ...getFolderProfileNames(folder.settings)
+        .filter((name) => Object.hasOwn(profiles, name))
+        .map((name) => ({
+          source: 'profile' as const,
+          detail: name,
+          settings: profiles[name],
+          locate: inWorkspace('settings', SETTINGS_KEYS.syncProfiles, name),
+        })),
+      ...Object.keys(folderOverrides)
+        .filter((pattern) => matchesFolder(pattern, folder))
+        .map((pattern) => ({
+          source: 'folderOverride' as const,
+          detail: pattern,
+          settings: folderOverrides[pattern],
+          locate: inWorkspace('settings', SETTINGS_KEYS.syncFolderOverrides, pattern),
+        })),
+      { source: 'folder', settings: folder.settings ?? {}, locate: inWorkspace('folders', folderIndex, 'settings') },
+    ];
+
+    const entries = new Map<string, SettingProvenance>();
+    for (const layer of inherited) {
+      this.applyLayer(entries, layer);
+    }
+
+    // rootSettings.exclude blocks inherited values (later layers can re-add them)
+    const excludePatterns = (rootSettings[SETTINGS_KEYS.syncRootSettingsExclude] as string[]) ?? [];
+    const matcher = new PatternMatcher(excludePatterns);
+    for (const entry of entries.values()) {
+      const pattern = entry.status === 'set' ? matcher.findExcludingPattern(entry.key) : undefined;
+      if (pattern !== undefined) {
+        entry.status = 'excluded';
+        entry.excludedBy = pattern;
+        entry.value = undefined;
+        entry.location = {
+          filePath: workspacePath,
+          path: ['settings', SETTINGS_KEYS.syncRootSettingsExclude, excludePatterns.indexOf(pattern)],
+        };
+      }
+    }
+
+    for (const layer of ownLayers) {
+      this.applyLayer(entries, layer);
+    }
+
+    // Effective values as forward sync generates them (merge strategies, variables)
+    const [plan] = await this.forwardSync.plan(folderPath);
+    const generated = plan ? this.merger.flattenSettings(plan.settings) : undefined;
+    for (const entry of entries.values()) {
+      if (entry.status === 'set' && generated && entry.key in generated) {
+        entry.value = generated[entry.key];
+      }
+    }
+
+    return [...entries.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Record the keys a layer sets (or unsets with null)
+   */
+  private applyLayer(entries: Map<string, SettingProvenance>, layer: ProvenanceLayer): void {
+    for (const [key, value] of Object.entries(this.merger.flattenSettings(layer.settings))) {
+      if (key.startsWith(WORKSPACE_MANAGER_PREFIX)) {
+        continue;
+      }
+
+      entries.set(key, {
+        key,
+        status: value === null ? 'unset' : 'set',
+        value: value === null ? undefined : value,
+        source: layer.source,
+        detail: layer.detail,
+        location: layer.locate(key),
+      });
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Settings schema service
+ *
+ * Collects the configuration schemas contributed by installed extensions (including the
+ * built-in ones) and validates setting values against them.
+ */
+
+import * as vscode from 'vscode';
+import type { SettingScope } from '../types';
+
+/**
+ * The part of a contributed configuration property schema used for validation
+ */
+export interface SettingSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  scope?: SettingScope;
+  deprecationMessage?: string;
+  markdownDeprecationMessage?: string;
+}
+
+/**
+ * A problem found when validating a setting
+ */
+export interface SettingIssue {
+  code: 'unknown-setting' | 'invalid-setting-type' | 'invalid-setting-value' | 'deprecated-setting';
+  message: string;
+  /** Known key that an unknown key differs from only in case */
+  suggestion?: string;
+}
+
+/**
+ * Configuration contribution in an extension's package.json
+ */
+interface ConfigurationContribution {
+  properties?: Record<string, SettingSchema>;
+}
+
+export class SettingsSchemaService {
+  private schemas: Map<string, SettingSchema> | undefined;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private extensionsListener: vscode.Disposable;
+
+  /**
+   * Fired when extensions are installed, removed or updated (schemas may have changed)
+   */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    this.extensionsListener = vscode.extensions.onDidChange(() => {
+      this.schemas = undefined;
+      this.changeEmitter.fire();
+    });
+  }
+
+  /**
+   * Get the contributed schema of a setting
+   *
+   * @returns undefined for unknown settings and for core settings (those aren't contributed by an extension)
+   */
+  getSchema(key: string): SettingSchema | undefined {
+    return this.getSchemas().get(key);
+  }
+
+  /**
+   * Get the registered scope of a setting
+   *
+   * Contributed settings without an explicit scope are window-scoped, as in VS Code.
+   *
+   * @returns undefined for unknown and core settings (their scope isn't available to extensions)
+   */
+  getScope(key: string): SettingScope | undefined {
+    const schema = this.getSchema(key);
+    return schema ? (schema.scope ?? 'window') : undefined;
+  }
+
+  /**
+   * Validate a setting value
+   *
+   * Settings contributed by an extension are checked against their schema (type, enum and
+   * deprecation). Core settings have no schema available to extensions, so they only count as
+   * known, and their type is inferred from a number or boolean default value.
+   * null values (which unset inherited settings) are never reported as invalid.
+   */
+  validate(key: string, value: unknown): SettingIssue[] {
+    const schema = this.getSchema(key);
+    if (!schema) {
+      return this.validateCoreSetting(key, value);
+    }
+
+    const issues: SettingIssue[] = [];
+    const deprecation = schema.deprecationMessage ?? schema.markdownDeprecationMessage;
+    if (deprecation) {
+      issues.push({ code: 'deprecated-setting', message: `"${key}" is deprecated. ${deprecation}` });
+    }
+
+    if (value === null) {
+      return issues;
+    }
+
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length > 0 && !types.some((type) => this.matchesType(value, type))) {
+      issues.push({
+        code: 'invalid-setting-type',
+        message: `Incorrect type for "${key}". Expected ${types.join(' or ')}.`,
+      });
+    } else if (schema.enum && !schema.enum.some((allowed) => this.isEqual(allowed, value))) {
+      issues.push({
+        code: 'invalid-setting-value',
+        message: `Value is not accepted for "${key}". Valid values: ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}.`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Validate a setting that isn't contributed by an extension (a core setting or an unknown key)
+   */
+  private validateCoreSetting(key: string, value: unknown): SettingIssue[] {
+    const defaultValue = vscode.workspace.getConfiguration().inspect(key)?.defaultValue;
+
+    if (defaultValue === undefined) {
+      const suggestion = this.findDifferentlyCasedKey(key);
+      return [
+        suggestion
+          ? { code: 'unknown-setting', message: `Unknown setting "${key}". Did you mean "${suggestion}"?`, suggestion }
+          : { code: 'unknown-setting', message: `Unknown setting "${key}". No installed extension contributes it.` },
+      ];
+    }
+
+    // Boolean settings sometimes also accept strings (e.g. true | "active" | false), so only quoted booleans are reported
+    const type = typeof defaultValue;
+    const isInvalid =
+      value !== null &&
+      ((type === 'number' && typeof value !== 'number') ||
+        (type === 'boolean' &&
+          typeof value !== 'boolean' &&
+          (typeof value !== 'string' || /^(true|false)$/.test(value))));
+
+    return isInvalid
+      ? [{ code: 'invalid-setting-type', message: `Incorrect type for "${key}". Expected ${type}.` }]
+      : [];
+  }
+
+  /**
+   * Find a known setting whose key differs from the given one only in case (e.g. "editor.fontsize")
+   */
+  private findDifferentlyCasedKey(key: string): string | undefined {
+    const lowerKey = key.toLowerCase();
+    for (const known of this.getSchemas().keys()) {
+      if (known.toLowerCase() === lowerKey) {
+        return known;
+      }
+    }
+
+    // Core settings can't be listed, but the configuration of the parent section exposes them
+    const dot = key.lastIndexOf('.');
+    if (dot <= 0) {
+      return undefined;
+    }
+    const section = vscode.workspace.getConfiguration(key.slice(0, dot));
+    const name = key.slice(dot + 1).toLowerCase();
+    const match = Object.keys(section).find(
+      (candidate) => candidate.toLowerCase() === name && typeof section[candidate] !== 'function'
+    );
+    return match ? `${key.slice(0, dot)}.${match}` : undefined;
+  }
+
+  /**
+   * Check a value against a JSON schema type name
+   */
+  private matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Collect the contributed configuration properties of all extensions (cached until extensions change)
+   */
+  private getSchemas(): Map<string, SettingSchema> {
+    if (!this.schemas) {
+      this.schemas = new Map();
+      for (const extension of vscode.extensions.all) {
+        const configuration = extension.packageJSON?.contributes?.configuration as
+          | ConfigurationContribution
+          | ConfigurationContribution[]
+          | undefined;
+        const contributions = Array.isArray(configuration) ? configuration : configuration ? [configuration] : [];
+
+        for (const contribution of contributions) {
+          for (const [key, schema] of Object.entries(contribution.properties ?? {})) {
+            this.schemas.set(key, schema);
+          }
+        }
+      }
+    }
+    return this.schemas;
+  }
+
+  dispose(): void {
+    this.extensionsListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
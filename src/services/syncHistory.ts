@@ -0,0 +1,355 @@
+/**
+ * Sync history service
+ *
+ * Keeps a bounded history of before/after snapshots for every file written by sync,
+ * grouped by operation, so syncs can be undone or earlier snapshots restored.
+ */
+
+import * as vscode from 'vscode';
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { WorkspaceConfigService } from './workspaceConfig';
+import type { TrackedFileWrite } from '../types';
+
+/**
+ * URI scheme for virtual snapshot documents
+ */
+export const HISTORY_SCHEME = 'workspace-manager-history';
+
+/**
+ * workspaceState key holding the history
+ */
+const HISTORY_STORAGE_KEY = 'workspaceManager.syncHistory';
+
+/**
+ * Maximum number of operations kept in history
+ */
+const MAX_OPERATIONS = 30;
+
+/**
+ * Recorded sync operation with the files it wrote
+ */
+export interface SyncOperation {
+  id: number;
+  label: string;
+  timestamp: number;
+  /** true for undo/restore operations (not offered by Undo Last Sync) */
+  isRestore: boolean;
+  /** true once the operation has been undone */
+  undone: boolean;
+  files: TrackedFileWrite[];
+}
+
+export class SyncHistoryService implements vscode.TextDocumentContentProvider {
+  private storage: vscode.Memento;
+  private workspaceConfig: WorkspaceConfigService;
+  private outputChannel: vscode.OutputChannel;
+
+  // The operation each async call chain is running in, so concurrent syncs are recorded separately
+  private operationContext = new AsyncLocalStorage<SyncOperation>();
+  private runningOperations = new Set<SyncOperation>();
+  // Pending history update; updates are chained so concurrent saves don't overwrite each other
+  private updateQueue: Promise<void> = Promise.resolve();
+  private subscription: vscode.Disposable;
+
+  constructor(storage: vscode.Memento, workspaceConfig: WorkspaceConfigService, outputChannel: vscode.OutputChannel) {
+    this.storage = storage;
+    this.workspaceConfig = workspaceConfig;
+    this.outputChannel = outputChannel;
+    this.subscription = workspaceConfig.onDidWriteFile((write) => this.recordWrite(write));
+  }
+
+  /**
+   * Run a sync operation, grouping all files it writes under one history entry
+   *
+   * Writes are attributed to the operation whose call chain made them, so operations
+   * running at the same time (e.g. two debounced auto syncs) get separate entries.
+   */
+  async runOperation<T>(label: string, fn: () => Promise<T>, isRestore = false): Promise<T> {
+    // Nested operations are recorded as part of the outer one
+    if (this.getCurrentOperation()) {
+      return fn();
+    }
+
+    const operation: SyncOperation = {
+      id: Date.now(),
+      label,
+      timestamp: Date.now(),
+      isRestore,
+      undone: false,
+      files: [],
+    };
+    this.runningOperations.add(operation);
+
+    try {
+      return await this.operationContext.run(operation, fn);
+    } finally {
+      this.runningOperations.delete(operation);
+      if (operation.files.length > 0) {
+        await this.save(operation);
+      }
+    }
+  }
+
+  /**
+   * Get recorded operations, newest first
+   */
+  getOperations(): SyncOperation[] {
+    return this.storage.get<SyncOperation[]>(HISTORY_STORAGE_KEY, []);
+  }
+
+  /**
+   * Undo the most recent sync operation that hasn't been undone yet
+   *
+   * @returns The undone operation, or null if there is nothing to undo
+   */
+  async undoLast(): Promise<SyncOperation | null> {
+    const operation = this.getOperations().find((op) => !op.isRestore && !op.undone);
+    if (!operation) {
+      return null;
+    }
+
+    // Check whether the files were changed after the sync
+    const modified: string[] = [];
+    for (const file of operation.files) {
+      if ((await this.readFile(file.filePath)) !== file.after) {
+        modified.push(this.describeFile(file.filePath));
+      }
+    }
+
+    if (modified.length > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Workspace Manager: ${modified.length} file(s) changed after "${operation.label}" (${modified.join(', ')}). Undo anyway?`,
+        { modal: true },
+        'Undo Anyway'
+      );
+      if (choice !== 'Undo Anyway') {
+        return null;
+      }
+    }
+
+    // Restore in reverse order so a file written twice ends up at its earliest snapshot
+    await this.runOperation(
+      `Undo: ${operation.label}`,
+      async () => {
+        for (const file of [...operation.files].reverse()) {
+          await this.workspaceConfig.writeTrackedFile(file.filePath, file.before);
+        }
+      },
+      true
+    );
+
+    await this.update((operations) => operations.map((op) => (op.id === operation.id ? { ...op, undone: true } : op)));
+    this.outputChannel.appendLine(`Undid sync operation: ${operation.label}`);
+    return operation;
+  }
+
+  /**
+   * Browse the history: pick an operation, then a file, then diff or restore it
+   */
+  async showHistory(): Promise<void> {
+    const operations = this.getOperations();
+    if (operations.length === 0) {
+      vscode.window.showInformationMessage('Workspace Manager: Sync history is empty');
+      return;
+    }
+
+    const pickedOperation = await vscode.window.showQuickPick(
+      operations.map((operation) => ({
+        label: operation.label,
+        description: new Date(operation.timestamp).toLocaleString() + (operation.undone ? ' (undone)' : ''),
+        detail: operation.files.map((file) => this.describeFile(file.filePath)).join(', '),
+        operation,
+      })),
+      { title: 'Workspace Manager: Sync History', placeHolder: 'Select a sync operation' }
+    );
+    if (!pickedOperation) {
+      return;
+    }
+
+    const operation = pickedOperation.operation;
+    const pickedFile = await vscode.window.showQuickPick(
+      operation.files.map((file, index) => ({
+        label: this.describeFile(file.filePath),
+        description: file.before === null ? 'created' : file.after === null ? 'deleted' : 'modified',
+        index,
+      })),
+      { title: `Workspace Manager: ${operation.label}`, placeHolder: 'Select a file' }
+    );
+    if (!pickedFile) {
+      return;
+    }
+
+    const file = operation.files[pickedFile.index];
+    const fileLabel = pickedFile.label;
+    const actions = [
+      { label: '$(diff) Compare before and after this sync', action: 'diff' },
+      { label: '$(diff) Compare snapshot before this sync with current file', action: 'diff-current' },
+      { label: '$(history) Restore version from before this sync', action: 'restore-before' },
+      { label: '$(history) Restore version from after this sync', action: 'restore-after' },
+    ] as const;
+
+    const pickedAction = await vscode.window.showQuickPick(actions, {
+      title: `Workspace Manager: ${fileLabel}`,
+      placeHolder: 'Select an action',
+    });
+    if (!pickedAction) {
+      return;
+    }
+
+    switch (pickedAction.action) {
+      case 'diff':
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          this.getSnapshotUri(operation, pickedFile.index, 'before'),
+          this.getSnapshotUri(operation, pickedFile.index, 'after'),
+          `${fileLabel} (${operation.label})`
+        );
+        break;
+      case 'diff-current':
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          this.getSnapshotUri(operation, pickedFile.index, 'before'),
+          vscode.Uri.file(file.filePath),
+          `${fileLabel} (before ${operation.label} ↔ current)`
+        );
+        break;
+      case 'restore-before':
+        await this.restore(file, 'before');
+        vscode.window.showInformationMessage(`Workspace Manager: Restored ${fileLabel}`);
+        break;
+      case 'restore-after':
+        await this.restore(file, 'after');
+        vscode.window.showInformationMessage(`Workspace Manager: Restored ${fileLabel}`);
+        break;
+    }
+  }
+
+  /**
+   * Restore a file to one of its recorded snapshots
+   */
+  async restore(file: TrackedFileWrite, side: 'before' | 'after'): Promise<void> {
+    const content = side === 'before' ? file.before : file.after;
+    await this.runOperation(
+      `Restore ${this.describeFile(file.filePath)}`,
+      () => this.workspaceConfig.writeTrackedFile(file.filePath, content),
+      true
+    );
+    this.outputChannel.appendLine(`Restored ${file.filePath} from history`);
+  }
+
+  /**
+   * Get the URI of a virtual document showing a snapshot
+   */
+  getSnapshotUri(operation: SyncOperation, fileIndex: number, side: 'before' | 'after'): vscode.Uri {
+    const fileName = path.basename(operation.files[fileIndex].filePath);
+    return vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${operation.id}/${fileIndex}/${side}/${fileName}` });
+  }
+
+  /**
+   * Provide content for a virtual snapshot document
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const [, id, fileIndex, side] = uri.path.split('/');
+    const operation = this.getOperations().find((op) => String(op.id) === id);
+    const file = operation?.files[Number(fileIndex)];
+    if (!file) {
+      return '';
+    }
+    return (side === 'before' ? file.before : file.after) ?? '';
+  }
+
+  /**
+   * Describe a file for display (workspace file name or folder-relative path)
+   */
+  describeFile(filePath: string): string {
+    if (filePath === this.workspaceConfig.getWorkspacePath()) {
+      return path.basename(filePath);
+    }
+
+    const workspaceDir = this.workspaceConfig.getWorkspaceDir();
+    return workspaceDir ? path.relative(workspaceDir, filePath).split(path.sep).join('/') : filePath;
+  }
+
+  /**
+   * Stop listening for file writes
+   */
+  dispose(): void {
+    this.subscription.dispose();
+  }
+
+  /**
+   * Record a file write in the current operation (or as its own operation)
+   */
+  private recordWrite(write: TrackedFileWrite): void {
+    const operation = this.getCurrentOperation();
+    if (!operation) {
+      // Write outside of a tracked operation - record it on its own
+      this.save({
+        id: Date.now(),
+        label: `Write ${this.describeFile(write.filePath)}`,
+        timestamp: Date.now(),
+        isRestore: false,
+        undone: false,
+        files: [write],
+      }).catch((error) =>
+        this.outputChannel.appendLine(
+          `Error recording sync history: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+      return;
+    }
+
+    // Keep the first "before" and the last "after" for files written more than once
+    const existing = operation.files.find((f) => f.filePath === write.filePath);
+    if (existing) {
+      existing.after = write.after;
+    } else {
+      operation.files.push(write);
+    }
+  }
+
+  /**
+   * Get the operation the calling code runs in
+   *
+   * Callbacks scheduled during an operation (e.g. timers) inherit its context, so finished
+   * operations are ignored.
+   */
+  private getCurrentOperation(): SyncOperation | undefined {
+    const operation = this.operationContext.getStore();
+    return operation && this.runningOperations.has(operation) ? operation : undefined;
+  }
+
+  /**
+   * Add an operation to the history, dropping the oldest entries beyond the limit
+   */
+  private async save(operation: SyncOperation): Promise<void> {
+    await this.update((operations) => {
+      // Ensure unique ids when operations finish within the same millisecond
+      const lastId = operations[0]?.id ?? 0;
+      const id = operation.id <= lastId ? lastId + 1 : operation.id;
+      return [{ ...operation, id }, ...operations].slice(0, MAX_OPERATIONS);
+    });
+  }
+
+  /**
+   * Update the stored history (after any pending update finished)
+   */
+  private async update(fn: (operations: SyncOperation[]) => SyncOperation[]): Promise<void> {
+    const update = this.updateQueue.then(() => this.storage.update(HISTORY_STORAGE_KEY, fn(this.getOperations())));
+    this.updateQueue = update.catch(() => undefined);
+    await update;
+  }
+
+  /**
+   * Read a file's current content (null if it doesn't exist)
+   */
+  private async readFile(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
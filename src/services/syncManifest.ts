@@ -0,0 +1,142 @@
+/**
+ * Sync manifest service
+ *
+ * Tracks which keys forward sync generated in each folder's .vscode/settings.json,
+ * so hand-written keys (by teammates or other extensions) are never overwritten or removed.
+ * Also stores the last-synced base state used for three-way conflict detection.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { WorkspaceConfigService } from './workspaceConfig';
+import { flattenLanguageOverrides, unflattenLanguageOverrides } from '../utils/languageOverrides';
+import type { SettingScope, Settings } from '../types';
+
+/**
+ * Manifest file name, stored next to the generated settings.json
+ */
+export const MANIFEST_FILE_NAME = 'workspace-manager.json';
+
+/**
+ * Manifest file structure
+ */
+interface SyncManifest {
+  /** Keys in settings.json that are owned by forward sync */
+  managedKeys: string[];
+  /** Settings both the workspace file and settings.json agreed on after the last sync */
+  base?: Settings;
+  /** Scopes of generated settings left out because VS Code ignores them in folders */
+  ignoredScopes?: Record<string, SettingScope>;
+}
+
+export class SyncManifestService {
+  private workspaceConfig: WorkspaceConfigService;
+
+  constructor(workspaceConfig: WorkspaceConfigService) {
+    this.workspaceConfig = workspaceConfig;
+  }
+
+  /**
+   * Read the keys managed by forward sync for a folder
+   *
+   * @returns The managed keys, or null if no manifest exists yet
+   */
+  async getManagedKeys(folderPath: string): Promise<string[] | null> {
+    const manifest = await this.read(folderPath);
+    return manifest ? manifest.managedKeys : null;
+  }
+
+  /**
+   * Read the last-synced base settings for a folder
+   *
+   * @returns The base settings, or null if the folder was never synced
+   */
+  async getBaseSettings(folderPath: string): Promise<Settings | null> {
+    const manifest = await this.read(folderPath);
+    return manifest?.base ?? null;
+  }
+
+  /**
+   * Record the last-synced base settings for a folder
+   */
+  async setBaseSettings(folderPath: string, base: Settings): Promise<void> {
+    const manifest = (await this.read(folderPath)) ?? { managedKeys: [] };
+    await this.write(folderPath, { ...manifest, base });
+  }
+
+  /**
+   * Read the scopes of the settings the last sync left out of a folder's settings.json
+   *
+   * Recorded so the CLI, which has no access to extension setting schemas, leaves out the same settings.
+   *
+   * @returns Scopes by setting key (without language header)
+   */
+  async getIgnoredScopes(folderPath: string): Promise<Record<string, SettingScope>> {
+    const manifest = await this.read(folderPath);
+    return manifest?.ignoredScopes ?? {};
+  }
+
+  /**
+   * Record the managed keys, the last-synced base settings and the left out settings' scopes of a folder
+   * in one manifest write
+   */
+  async setSyncState(
+    folderPath: string,
+    keys: string[],
+    base: Settings,
+    ignoredScopes: Record<string, SettingScope>
+  ): Promise<void> {
+    await this.write(folderPath, {
+      managedKeys: [...keys].sort(),
+      base,
+      ignoredScopes: Object.keys(ignoredScopes).length > 0 ? ignoredScopes : undefined,
+    });
+  }
+
+  /**
+   * Update a single key (or language block entry) of the last-synced base settings (undefined removes it)
+   */
+  async setBaseValue(folderPath: string, key: string, value: unknown): Promise<void> {
+    const base = flattenLanguageOverrides((await this.getBaseSettings(folderPath)) ?? {});
+    if (value === undefined) {
+      delete base[key];
+    } else {
+      base[key] = value;
+    }
+    await this.setBaseSettings(folderPath, unflattenLanguageOverrides(base));
+  }
+
+  /**
+   * Read and validate the manifest file for a folder
+   */
+  private async read(folderPath: string): Promise<SyncManifest | null> {
+    try {
+      const content = await fs.readFile(await this.getManifestPath(folderPath), 'utf-8');
+      const manifest = jsonc.parse(content) as Partial<SyncManifest> | undefined;
+      if (!Array.isArray(manifest?.managedKeys)) {
+        return null;
+      }
+      return { managedKeys: manifest.managedKeys, base: manifest.base, ignoredScopes: manifest.ignoredScopes };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write the manifest file for a folder (only if changed)
+   */
+  private async write(folderPath: string, manifest: SyncManifest): Promise<void> {
+    const manifestPath = await this.getManifestPath(folderPath);
+    const newContent = JSON.stringify(manifest, null, 4) + '\n';
+    await this.workspaceConfig.writeTrackedFile(manifestPath, newContent);
+  }
+
+  /**
+   * Get the absolute manifest path for a folder
+   */
+  private async getManifestPath(folderPath: string): Promise<string> {
+    const resolvedPath = await this.workspaceConfig.resolveFolderPath(folderPath);
+    return path.join(resolvedPath, '.vscode', MANIFEST_FILE_NAME);
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Sync preview service
+ *
+ * Shows what forward or reverse sync would change as diff editors, backed by a
+ * virtual document provider. Nothing is written until the preview is applied.
+ */
+
+import * as vscode from 'vscode';
+import { ForwardSyncService } from './forwardSync';
+import { ReverseSyncService } from './reverseSync';
+import { WorkspaceConfigService } from './workspaceConfig';
+import type { ForwardSyncPlan } from '../types';
+
+/**
+ * URI scheme for virtual preview documents
+ */
+export const PREVIEW_SCHEME = 'workspace-manager-preview';
+
+type PreviewKind = 'forward' | 'reverse';
+
+/**
+ * A preview waiting to be applied, with the content shown in its diff editors
+ */
+type PendingPreview =
+  | { kind: 'forward'; plans: ForwardSyncPlan[] }
+  | { kind: 'reverse'; previews: Array<{ folderPath: string; original: string; modified: string }> };
+
+export class SyncPreviewService implements vscode.TextDocumentContentProvider {
+  private workspaceConfig: WorkspaceConfigService;
+  private forwardSync: ForwardSyncService;
+  private reverseSync: ReverseSyncService;
+  private outputChannel: vscode.OutputChannel;
+
+  private contents = new Map<string, string>();
+  private pending: PendingPreview | null = null;
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    workspaceConfig: WorkspaceConfigService,
+    forwardSync: ForwardSyncService,
+    reverseSync: ReverseSyncService,
+    outputChannel: vscode.OutputChannel
+  ) {
+    this.workspaceConfig = workspaceConfig;
+    this.forwardSync = forwardSync;
+    this.reverseSync = reverseSync;
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * Provide content for a virtual preview document
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  /**
+   * Preview forward sync: one diff editor per folder whose settings.json would change
+   *
+   * @returns Number of folders that would change
+   */
+  async previewForward(): Promise<number> {
+    await this.discard();
+
+    const plans = (await this.forwardSync.plan()).filter((plan) => plan.existingContent !== plan.newContent);
+
+    for (let i = 0; i < plans.length; i++) {
+      const plan = plans[i];
+      const label = plan.folder.name || plan.folder.path;
+      const modifiedUri = this.setContent('forward', i, 'modified', 'settings.json', plan.newContent);
+
+      // New files are compared against an empty virtual document
+      const originalUri =
+        plan.existingContent === null
+          ? this.setContent('forward', i, 'original', 'settings.json', '')
+          : vscode.Uri.file(plan.settingsFile);
+
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        originalUri,
+        modifiedUri,
+        `${label}/.vscode/settings.json (Forward Sync Preview)`,
+        { preview: false }
+      );
+    }
+
+    if (plans.length > 0) {
+      this.pending = { kind: 'forward', plans };
+      this.outputChannel.appendLine(`Forward sync preview: ${plans.length} folder(s) would change`);
+    }
+
+    return plans.length;
+  }
+
+  /**
+   * Preview reverse sync: one diff editor of the workspace file per folder with changes
+   *
+   * @returns Number of folders that would change
+   */
+  async previewReverse(): Promise<number> {
+    await this.discard();
+
+    const workspacePath = this.workspaceConfig.getWorkspacePath();
+    if (!workspacePath) {
+      return 0;
+    }
+
+    const folders = await this.workspaceConfig.getFolders();
+    const previews: Array<{ folderPath: string; original: string; modified: string }> = [];
+
+    for (const folder of folders) {
+      const preview = await this.reverseSync.previewFolderToWorkspace(folder.path);
+      if (!preview || preview.original === preview.modified) {
+        continue;
+      }
+
+      const label = folder.name || folder.path;
+      const modifiedUri = this.setContent(
+        'reverse',
+        previews.length,
+        'modified',
+        'workspace.code-workspace',
+        preview.modified
+      );
+
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(workspacePath),
+        modifiedUri,
+        `Workspace file ← ${label} (Reverse Sync Preview)`,
+        { preview: false }
+      );
+      previews.push({ folderPath: folder.path, original: preview.original, modified: preview.modified });
+    }
+
+    if (previews.length > 0) {
+      this.pending = { kind: 'reverse', previews };
+      this.outputChannel.appendLine(`Reverse sync preview: ${previews.length} folder(s) would change`);
+    }
+
+    return previews.length;
+  }
+
+  /**
+   * Check if a preview is waiting to be applied or discarded
+   */
+  hasPendingPreview(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Apply the pending preview, writing exactly what was previewed
+   *
+   * Only the previewed folders are synced. Nothing is written if a fresh plan no longer
+   * matches the preview (files changed in the meantime).
+   *
+   * @returns Number of folders synced
+   * @throws Error if the preview is out of date
+   */
+  async apply(): Promise<number> {
+    const pending = this.pending;
+    await this.discard();
+
+    if (!pending) {
+      return 0;
+    }
+
+    if (!(await this.isUpToDate(pending))) {
+      this.outputChannel.appendLine('Sync preview not applied: files changed since the preview was created');
+      throw new Error('Files changed since the preview was created. Preview the sync again.');
+    }
+
+    if (pending.kind === 'forward') {
+      return this.forwardSync.applyPlans(pending.plans);
+    }
+
+    let syncedCount = 0;
+    for (const { folderPath } of pending.previews) {
+      if (await this.reverseSync.syncFolderToWorkspace(folderPath)) {
+        syncedCount++;
+      }
+    }
+    return syncedCount;
+  }
+
+  /**
+   * Discard the pending preview and close its diff editors
+   */
+  async discard(): Promise<void> {
+    this.pending = null;
+
+    const previewTabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter((tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === PREVIEW_SCHEME);
+    if (previewTabs.length > 0) {
+      await vscode.window.tabGroups.close(previewTabs);
+    }
+
+    this.contents.clear();
+  }
+
+  /**
+   * Dispose the event emitter
+   */
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  /**
+   * Check that planning the previewed folders again still gives the previewed content
+   */
+  private async isUpToDate(pending: PendingPreview): Promise<boolean> {
+    if (pending.kind === 'forward') {
+      for (const plan of pending.plans) {
+        const [fresh] = await this.forwardSync.plan(plan.folder.path);
+        if (!fresh || fresh.existingContent !== plan.existingContent || fresh.newContent !== plan.newContent) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    for (const { folderPath, original, modified } of pending.previews) {
+      const fresh = await this.reverseSync.previewFolderToWorkspace(folderPath);
+      if (!fresh || fresh.original !== original || fresh.modified !== modified) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Store content for a virtual preview document and return its URI
+   */
+  private setContent(kind: PreviewKind, index: number, side: string, fileName: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${kind}/${index}/${side}/${fileName}` });
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+    return uri;
+  }
+}
@@ -5,28 +5,42 @@
  * (JSON with comments and trailing commas)
  */
 
-import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as jsonc from 'jsonc-parser';
-import type { FolderConfig, Settings, WorkspaceFile } from '../types';
+import { SettingsMerger } from './settingsMerger';
+import { EventEmitter, type Event } from '../utils/eventEmitter';
+import { detectIndentationStyle, modifyJsonc } from '../utils/jsoncFormatting';
+import { toSettingsPath } from '../utils/languageOverrides';
+import {
+  SETTINGS_KEYS,
+  type ExtendedSettingsFile,
+  type FolderConfig,
+  type Logger,
+  type Settings,
+  type TrackedFileWrite,
+  type WorkspaceFile,
+} from '../types';
 
 export class WorkspaceConfigService {
   private workspacePath: string | undefined;
+  private merger: SettingsMerger;
+  private writeEmitter: EventEmitter<TrackedFileWrite>;
 
-  constructor() {
-    this.workspacePath = this.findWorkspaceFile();
-  }
+  /**
+   * Fired after a file managed by sync was written
+   */
+  readonly onDidWriteFile: Event<TrackedFileWrite>;
 
   /**
-   * Find the .code-workspace file for the current workspace
+   * @param workspacePath - Absolute path of the .code-workspace file (undefined if the window has none)
+   * @param outputChannel - Where errors of failing event listeners are logged
    */
-  private findWorkspaceFile(): string | undefined {
-    const workspaceFile = vscode.workspace.workspaceFile;
-    if (workspaceFile && workspaceFile.scheme === 'file') {
-      return workspaceFile.fsPath;
-    }
-    return undefined;
+  constructor(workspacePath: string | undefined, outputChannel: Logger) {
+    this.workspacePath = workspacePath;
+    this.merger = new SettingsMerger();
+    this.writeEmitter = new EventEmitter(outputChannel);
+    this.onDidWriteFile = this.writeEmitter.event;
   }
 
   /**
@@ -64,61 +78,182 @@ export class WorkspaceConfigService {
     return {
       folders: data.folders || [],
       settings: data.settings || {},
+      extensions: data.extensions,
+      launch: data.launch,
+      tasks: data.tasks,
     };
   }
 
   /**
    * Save the workspace file
    *
-   * Preserves formatting by using JSON.stringify with indentation
+   * Applies minimal jsonc-parser edits to the keys that changed, preserving
+   * comments, trailing commas, key order and blank lines.
    */
   async save(workspaceFile: WorkspaceFile): Promise<void> {
     if (!this.workspacePath) {
       throw new Error('No workspace file found');
     }
 
-    // Read the original file to preserve any extra fields
     const content = await fs.readFile(this.workspacePath, 'utf-8');
-    const originalData = jsonc.parse(content) as Record<string, unknown>;
+    const originalData = (jsonc.parse(content) ?? {}) as Partial<WorkspaceFile>;
+    const formattingOptions = detectIndentationStyle(content);
 
-    // Update only folders and settings
-    const updatedData = {
-      ...originalData,
-      folders: workspaceFile.folders,
-      settings: workspaceFile.settings,
-    };
+    // Update only settings and folders
+    let modified = this.applyObjectChanges(
+      content,
+      ['settings'],
+      originalData.settings ?? {},
+      workspaceFile.settings,
+      formattingOptions
+    );
 
-    // Write back with proper formatting
-    const output = JSON.stringify(updatedData, null, '\t') + '\n';
-    await fs.writeFile(this.workspacePath, output, 'utf-8');
+    const originalFolders = originalData.folders ?? [];
+    if (originalFolders.length !== workspaceFile.folders.length) {
+      // Folders were added or removed - replace the whole array
+      modified = modifyJsonc(modified, ['folders'], workspaceFile.folders, formattingOptions);
+    } else {
+      for (let i = 0; i < workspaceFile.folders.length; i++) {
+        modified = this.applyObjectChanges(
+          modified,
+          ['folders', i],
+          originalFolders[i] as unknown as Settings,
+          workspaceFile.folders[i] as unknown as Settings,
+          formattingOptions
+        );
+      }
+    }
+
+    await this.writeIfChanged(content, modified);
   }
 
   /**
    * Update settings for a specific folder
    *
+   * Only the given keys are edited in place. A value of `undefined` removes the key.
+   * Keys addressing an entry of a language block ("[python].editor.tabSize") edit that entry only.
+   *
    * @param folderPath - The folder path (relative to workspace root)
    * @param newSettings - The new settings to merge into folder.settings
    */
   async updateFolderSettings(folderPath: string, newSettings: Settings): Promise<void> {
-    const workspace = await this.load();
+    const { original, modified } = await this.renderFolderSettingsUpdate(folderPath, newSettings);
+    await this.writeIfChanged(original, modified);
+  }
 
-    const folderIndex = workspace.folders.findIndex((f) => f.path === folderPath);
+  /**
+   * Compute the workspace file content after updating a folder's settings, without writing it
+   *
+   * @returns The current and the updated file content
+   */
+  async renderFolderSettingsUpdate(
+    folderPath: string,
+    newSettings: Settings
+  ): Promise<{ original: string; modified: string }> {
+    if (!this.workspacePath) {
+      throw new Error('No workspace file found');
+    }
+
+    const content = await fs.readFile(this.workspacePath, 'utf-8');
+    const data = (jsonc.parse(content) ?? {}) as Partial<WorkspaceFile>;
+
+    const folderIndex = (data.folders ?? []).findIndex((f) => f.path === folderPath);
     if (folderIndex === -1) {
       throw new Error(`Folder not found: ${folderPath}`);
     }
 
-    const folder = workspace.folders[folderIndex];
+    const formattingOptions = detectIndentationStyle(content);
+    let modified = content;
 
-    // Merge new settings into existing folder settings
-    workspace.folders[folderIndex] = {
-      ...folder,
-      settings: {
-        ...folder.settings,
-        ...newSettings,
-      },
-    };
+    for (const [key, value] of Object.entries(newSettings)) {
+      modified = modifyJsonc(
+        modified,
+        ['folders', folderIndex, 'settings', ...toSettingsPath(key)],
+        value,
+        formattingOptions
+      );
+    }
 
-    await this.save(workspace);
+    return { original: content, modified };
+  }
+
+  /**
+   * Apply edits for every key that differs between two objects
+   *
+   * Nested plain objects are compared recursively so only the changed leaves are touched.
+   */
+  private applyObjectChanges(
+    text: string,
+    basePath: jsonc.JSONPath,
+    before: Settings,
+    after: Settings,
+    formattingOptions: jsonc.FormattingOptions
+  ): string {
+    let modified = text;
+
+    for (const [key, value] of Object.entries(after)) {
+      const previous = before[key];
+      if (this.merger.deepEqual(previous, value)) {
+        continue;
+      }
+
+      if (this.merger.isPlainObject(previous) && this.merger.isPlainObject(value)) {
+        modified = this.applyObjectChanges(modified, [...basePath, key], previous, value, formattingOptions);
+      } else {
+        modified = modifyJsonc(modified, [...basePath, key], value, formattingOptions);
+      }
+    }
+
+    // Remove keys that no longer exist
+    for (const key of Object.keys(before)) {
+      if (after[key] === undefined) {
+        modified = modifyJsonc(modified, [...basePath, key], undefined, formattingOptions);
+      }
+    }
+
+    return modified;
+  }
+
+  /**
+   * Write the workspace file only when the content actually changed
+   */
+  private async writeIfChanged(original: string, modified: string): Promise<void> {
+    if (!this.workspacePath || modified === original) {
+      return;
+    }
+    await this.writeTrackedFile(this.workspacePath, modified);
+  }
+
+  /**
+   * Write a file managed by sync (workspace file, folder settings.json or sync manifest)
+   *
+   * Every write is reported through onDidWriteFile so it can be recorded in the sync history.
+   *
+   * @param filePath - Absolute file path
+   * @param content - New content, or null to delete the file
+   * @returns true if the file was changed, false if content was identical
+   */
+  async writeTrackedFile(filePath: string, content: string | null): Promise<boolean> {
+    let before: string | null = null;
+    try {
+      before = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      // File doesn't exist, will be created
+    }
+
+    if (before === content) {
+      return false;
+    }
+
+    if (content === null) {
+      await fs.rm(filePath, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+
+    this.writeEmitter.fire({ filePath, before, after: content });
+    return true;
   }
 
   /**
@@ -145,6 +280,66 @@ export class WorkspaceConfigService {
     return workspace.settings;
   }
 
+  /**
+   * Get root settings with the shared files from "workspaceManager.extends" layered underneath
+   *
+   * Extended files are merged in the listed order, then the root settings on top (root has final say,
+   * null unsets an extended value). Missing or invalid files are skipped (reported by diagnostics).
+   *
+   * @param settings - Root settings as written in the workspace file
+   */
+  async resolveRootSettings(settings: Settings): Promise<Settings> {
+    const extended = await this.loadExtendedSettings(settings);
+    if (extended.length === 0) {
+      return settings;
+    }
+
+    const base = extended.reduce<Settings>(
+      (merged, file) => (file.settings ? this.merger.merge(merged, file.settings) : merged),
+      {}
+    );
+    return this.merger.merge(base, settings);
+  }
+
+  /**
+   * Load the shared settings files listed in root "workspaceManager.extends"
+   */
+  async loadExtendedSettings(settings: Settings): Promise<ExtendedSettingsFile[]> {
+    const entries = settings[SETTINGS_KEYS.extends];
+    if (!Array.isArray(entries)) {
+      return [];
+    }
+
+    return Promise.all(
+      entries.filter((entry): entry is string => typeof entry === 'string').map((entry) => this.readExtendedFile(entry))
+    );
+  }
+
+  /**
+   * Read a shared settings file (JSONC, relative paths resolved against the workspace directory)
+   */
+  async readExtendedFile(entry: string): Promise<ExtendedSettingsFile> {
+    const filePath = path.resolve(this.getWorkspaceDir() ?? '', entry);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      return { entry, filePath, error: 'missing', message: error instanceof Error ? error.message : String(error) };
+    }
+
+    const errors: jsonc.ParseError[] = [];
+    const data = jsonc.parse(content, errors, { allowTrailingComma: true }) as unknown;
+    if (errors.length > 0) {
+      return { entry, filePath, error: 'invalid', message: jsonc.printParseErrorCode(errors[0].error) };
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return { entry, filePath, error: 'invalid', message: 'Expected a settings object' };
+    }
+
+    return { entry, filePath, settings: data as Settings };
+  }
+
   /**
    * Resolve a folder path to an absolute canonical path (resolves symlinks)
    *
@@ -191,4 +386,11 @@ export class WorkspaceConfigService {
       return false;
     }
   }
+
+  /**
+   * Dispose the event emitter
+   */
+  dispose(): void {
+    this.writeEmitter.dispose();
+  }
 }
@@ -7,6 +7,58 @@
  */
 export type Settings = Record<string, unknown>;
 
+/**
+ * How a setting is merged with the value it inherits (workspaceManager.sync.mergeStrategies)
+ *
+ * - replace: the folder value replaces the inherited value
+ * - union: arrays are combined without duplicates
+ * - append / prepend: folder items are added after / before the inherited items
+ * - deep: objects are merged recursively, arrays replaced (the default)
+ */
+export type MergeStrategy = 'replace' | 'union' | 'append' | 'prepend' | 'deep';
+
+/**
+ * Merge strategies by settings key pattern
+ */
+export type MergeStrategies = Record<string, MergeStrategy>;
+
+/**
+ * Folder-side change to an inherited array merged with union, append or prepend
+ *
+ * A plain array in folder settings is shorthand for { add: [...] }.
+ */
+export interface ArrayPatch {
+  add?: unknown[];
+  remove?: unknown[];
+}
+
+/**
+ * Extension recommendations (workspace "extensions" object or .vscode/extensions.json)
+ */
+export interface ExtensionRecommendations {
+  recommendations?: string[];
+  unwantedRecommendations?: string[];
+}
+
+/**
+ * Launch configuration object (workspace "launch" or .vscode/launch.json)
+ */
+export interface LaunchConfig {
+  version?: string;
+  configurations?: Settings[];
+  compounds?: Settings[];
+  [key: string]: unknown;
+}
+
+/**
+ * Tasks configuration object (workspace "tasks" or .vscode/tasks.json)
+ */
+export interface TasksConfig {
+  version?: string;
+  tasks?: Settings[];
+  [key: string]: unknown;
+}
+
 /**
  * Folder definition from .code-workspace file
  */
@@ -14,6 +66,9 @@ export interface FolderConfig {
   name?: string;
   path: string;
   settings?: Settings;
+  extensions?: ExtensionRecommendations;
+  launch?: LaunchConfig;
+  tasks?: TasksConfig;
 }
 
 /**
@@ -22,6 +77,187 @@ export interface FolderConfig {
 export interface WorkspaceFile {
   folders: FolderConfig[];
   settings: Settings;
+  extensions?: ExtensionRecommendations;
+  launch?: LaunchConfig;
+  tasks?: TasksConfig;
+}
+
+/**
+ * A key changed differently in the workspace file and in a folder's .vscode/settings.json since the last sync
+ */
+export interface SettingsConflict {
+  folder: FolderConfig;
+  key: string;
+  /** Value both sides agreed on after the last sync (undefined if unset) */
+  baseValue: unknown;
+  /** Value the workspace file currently generates (undefined if unset) */
+  workspaceValue: unknown;
+  /** Value currently in .vscode/settings.json (undefined if unset) */
+  folderValue: unknown;
+}
+
+/**
+ * Options for planning and running forward sync
+ */
+export interface ForwardSyncOptions {
+  /**
+   * Overwrite folder-side changes even if reverse sync would pick them up or they conflict with
+   * workspace changes (for callers where reverse sync never runs, e.g. the CLI)
+   */
+  overwriteFolderChanges?: boolean;
+}
+
+/**
+ * Result of computing forward sync for a single folder (nothing written yet)
+ */
+export interface ForwardSyncPlan {
+  folder: FolderConfig;
+  /** Absolute path of the folder's .vscode/settings.json */
+  settingsFile: string;
+  /** Settings generated by the merge chain */
+  settings: Settings;
+  /** Base state to record after writing (skipped keys keep their previous base) */
+  base: Settings;
+  /** Current file content, or null if the file doesn't exist */
+  existingContent: string | null;
+  /** File content forward sync would write */
+  newContent: string;
+  /** Keys in the current file that forward sync doesn't own */
+  unmanagedKeys: string[];
+  /** Keys left untouched because they changed on both sides since the last sync */
+  conflicts: SettingsConflict[];
+  /** Scopes of generated settings left out because VS Code ignores them in folders, by setting key */
+  ignoredScopes: Record<string, SettingScope>;
+}
+
+/**
+ * Result of computing reverse sync for a single folder (nothing written yet)
+ */
+export interface ReverseSyncPlan {
+  folder: FolderConfig;
+  /** Changes to apply to folders[].settings (null removes the key) */
+  diff: Settings;
+  /** Keys left out of the diff because they changed on both sides since the last sync */
+  conflicts: SettingsConflict[];
+  /** Base state to record after writing, or null if the folder was never forward synced */
+  base: Settings | null;
+}
+
+/**
+ * A folder written by a sync, with the settings keys that changed
+ */
+export interface SyncedFolder {
+  /** Folder path as written in the workspace file */
+  path: string;
+  name?: string;
+  /** Changed keys (entries of language blocks as "[language].setting") */
+  changedKeys: string[];
+}
+
+/**
+ * Payload of the sync events (one entry per folder that changed)
+ */
+export interface SyncEvent {
+  folders: SyncedFolder[];
+}
+
+/**
+ * Sync status of a folder: generated settings compared with its current .vscode/settings.json
+ */
+export interface FolderSyncStatus {
+  folder: FolderConfig;
+  /** Absolute path of the folder's .vscode/settings.json */
+  settingsFile: string;
+  /** Number of settings the merge chain generates for the folder */
+  effectiveCount: number;
+  /** Number of settings the folder sets itself in folders[].settings */
+  overrideCount: number;
+  /** Keys whose value in .vscode/settings.json differs from the generated one (entries of language blocks as "[language].setting") */
+  driftedKeys: string[];
+}
+
+/**
+ * Scope a setting is registered with (the "scope" of a contributed configuration property)
+ */
+export type SettingScope =
+  | 'application'
+  | 'machine'
+  | 'window'
+  | 'resource'
+  | 'language-overridable'
+  | 'machine-overridable';
+
+/**
+ * Look up the registered scope of a setting (undefined if it isn't known)
+ */
+export type SettingScopeLookup = (key: string) => SettingScope | undefined;
+
+/**
+ * Layer of the merge chain a setting comes from
+ */
+export type SettingSource = 'extends' | 'root' | 'defaults' | 'profile' | 'folderOverride' | 'folder';
+
+/**
+ * Where a setting (or the exclude pattern blocking it) is defined
+ */
+export interface SettingLocation {
+  /** Absolute path of the file (workspace file or extended settings file) */
+  filePath: string;
+  /** JSON path of the property inside the file */
+  path: (string | number)[];
+}
+
+/**
+ * Why a folder ends up with a setting
+ */
+export interface SettingProvenance {
+  /** Settings key (entries of language blocks as "[language].setting") */
+  key: string;
+  /** set: in the generated settings; unset: removed with null; excluded: blocked by rootSettings.exclude */
+  status: 'set' | 'unset' | 'excluded';
+  /** Effective value (status "set" only) */
+  value?: unknown;
+  /** The layer that decided the status (for "excluded", the layer the blocked value came from) */
+  source: SettingSource;
+  /** Extends entry, profile name or folder override pattern of the source */
+  detail?: string;
+  /** The rootSettings.exclude pattern blocking the key (status "excluded" only) */
+  excludedBy?: string;
+  location: SettingLocation;
+}
+
+/**
+ * Log output of the sync services (vscode.OutputChannel in the extension, the console in the CLI)
+ */
+export interface Logger {
+  appendLine(value: string): void;
+}
+
+/**
+ * A write to a file managed by sync (workspace file, folder settings.json or sync manifest)
+ */
+export interface TrackedFileWrite {
+  filePath: string;
+  /** Content before the write, or null if the file didn't exist */
+  before: string | null;
+  /** Content after the write, or null if the file was deleted */
+  after: string | null;
+}
+
+/**
+ * A shared settings file listed in root "workspaceManager.extends"
+ */
+export interface ExtendedSettingsFile {
+  /** The entry as written in the workspace file */
+  entry: string;
+  /** Absolute path of the file */
+  filePath: string;
+  /** Parsed settings, or undefined if the file is missing or invalid */
+  settings?: Settings;
+  /** Why the file couldn't be used */
+  error?: 'missing' | 'invalid';
+  /** Details about the error (e.g. the parse error) */
+  message?: string;
 }
 
 /**
@@ -67,10 +303,19 @@ export const DEFAULT_EXTENSION_SETTINGS: ExtensionSettings = {
 export const SETTINGS_KEYS = {
   autoSyncEnabled: 'workspaceManager.autoSync.enabled',
   syncEnabled: 'workspaceManager.sync.enabled',
+  extends: 'workspaceManager.extends',
   syncRootSettingsExclude: 'workspaceManager.sync.rootSettings.exclude',
   syncSubFolderSettingsDefaults: 'workspaceManager.sync.subFolderSettings.defaults',
+  syncMergeStrategies: 'workspaceManager.sync.mergeStrategies',
+  syncProfiles: 'workspaceManager.sync.profiles',
+  syncFolderOverrides: 'workspaceManager.sync.folderOverrides',
+  syncRootLaunchExclude: 'workspaceManager.sync.rootLaunch.exclude',
+  syncSubFolderLaunchDefaults: 'workspaceManager.sync.subFolderLaunch.defaults',
+  syncRootTasksExclude: 'workspaceManager.sync.rootTasks.exclude',
+  syncSubFolderTasksDefaults: 'workspaceManager.sync.subFolderTasks.defaults',
   reverseSyncEnabled: 'workspaceManager.reverseSync.enabled',
   reverseSyncFolderSettingsExclude: 'workspaceManager.reverseSync.folderSettings.exclude',
+  folderProfiles: 'workspaceManager.profiles',
 } as const;
 
 /**
@@ -0,0 +1,67 @@
+/**
+ * Minimal event emitter
+ *
+ * Mirrors the shape of vscode.EventEmitter, so the sync core (workspace config, forward and
+ * reverse sync) can run outside VS Code (e.g. in the CLI) while extension code subscribes as usual.
+ */
+
+import type { Logger } from '../types';
+
+export interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * Subscribe to an event - returns a Disposable that unsubscribes
+ */
+export type Event<T> = (listener: (event: T) => unknown) => Disposable;
+
+export class EventEmitter<T> {
+  private listeners = new Set<(event: T) => unknown>();
+  private outputChannel: Logger;
+
+  /**
+   * @param outputChannel - Where errors of failing listeners are logged
+   */
+  constructor(outputChannel: Logger) {
+    this.outputChannel = outputChannel;
+  }
+
+  /**
+   * The event listeners can subscribe to
+   */
+  readonly event: Event<T> = (listener) => {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  };
+
+  /**
+   * Notify all listeners
+   *
+   * As with vscode.EventEmitter, a listener that throws (or returns a rejected promise) is logged
+   * and doesn't affect the other listeners or the code firing the event.
+   */
+  fire(event: T): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        const result = listener(event);
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => this.logListenerError(error));
+        }
+      } catch (error) {
+        this.logListenerError(error);
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners
+   */
+  dispose(): void {
+    this.listeners.clear();
+  }
+
+  private logListenerError(error: unknown): void {
+    this.outputChannel.appendLine(`Event listener error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Exclude pattern linting
+ *
+ * Finds mistakes in exclude pattern lists (sync.rootSettings.exclude, reverseSync.folderSettings.exclude):
+ * broken globs, patterns that match no setting, negations that re-include nothing and patterns made
+ * redundant by another entry. Patterns are checked against the settings keys actually in use.
+ */
+
+import picomatch from 'picomatch';
+import { matchesPattern } from './patternMatcher';
+import { escapeLanguageOverridePattern, flattenLanguageOverrides } from './languageOverrides';
+import type { Settings } from '../types';
+
+export interface ExcludePatternIssue {
+  /** Index of the entry in the pattern list */
+  index: number;
+  code: 'exclude-pattern-invalid' | 'exclude-pattern-unused' | 'exclude-negation-unused' | 'exclude-pattern-shadowed';
+  message: string;
+  /** Settings key to use instead (for patterns that look like a misspelled key) */
+  suggestion?: string;
+}
+
+/**
+ * Collect the keys of a settings object as exclude patterns see them
+ *
+ * Entries of language blocks are listed as "[language].setting", entries of object values as "setting.subKey".
+ */
+export function collectSettingPaths(settings: Settings): string[] {
+  const paths: string[] = [];
+  const collect = (path: string, value: unknown) => {
+    paths.push(path);
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      for (const [subKey, subValue] of Object.entries(value)) {
+        collect(`${path}.${subKey}`, subValue);
+      }
+    }
+  };
+
+  for (const [key, value] of Object.entries(flattenLanguageOverrides(settings))) {
+    collect(key, value);
+  }
+  return paths;
+}
+
+/**
+ * Lint a list of exclude patterns
+ *
+ * Each entry gets at most one issue (invalid before unused before shadowed).
+ *
+ * @param patterns - The pattern list as written (non-string entries are reported as invalid)
+ * @param keys - Settings keys and nested paths in use (see collectSettingPaths)
+ */
+export function lintExcludePatterns(patterns: unknown[], keys: string[]): ExcludePatternIssue[] {
+  const issues: ExcludePatternIssue[] = [];
+  const uniqueKeys = [...new Set(keys)];
+
+  // Keys matched by each valid entry (undefined for invalid entries)
+  const matched = patterns.map((pattern, index) => {
+    const error = getPatternError(pattern);
+    if (error) {
+      issues.push({ index, code: 'exclude-pattern-invalid', message: error });
+      return undefined;
+    }
+    const glob = stripNegation(pattern as string);
+    return new Set(uniqueKeys.filter((key) => matchesPattern(glob, key)));
+  });
+
+  const positives = patterns
+    .map((pattern, index) => ({ pattern: pattern as string, index, keys: matched[index] }))
+    .filter((entry): entry is { pattern: string; index: number; keys: Set<string> } => {
+      return entry.keys !== undefined && !entry.pattern.startsWith('!');
+    });
+
+  patterns.forEach((pattern, index) => {
+    const keysOfPattern = matched[index];
+    if (!keysOfPattern) {
+      return;
+    }
+    const text = pattern as string;
+
+    // Negations only matter for keys another pattern excludes
+    if (text.startsWith('!')) {
+      const reincludes = [...keysOfPattern].some((key) => positives.some((entry) => entry.keys.has(key)));
+      if (!reincludes) {
+        issues.push({
+          index,
+          code: 'exclude-negation-unused',
+          message: `Negation "${text}" doesn't re-include any setting excluded by another pattern.`,
+        });
+      }
+      return;
+    }
+
+    if (keysOfPattern.size === 0) {
+      const suggestion = isGlob(text) ? undefined : findSimilarKey(text, uniqueKeys);
+      issues.push({
+        index,
+        code: 'exclude-pattern-unused',
+        message: suggestion
+          ? `Exclude pattern "${text}" doesn't match any setting. Did you mean "${suggestion}"?`
+          : `Exclude pattern "${text}" doesn't match any setting.`,
+        suggestion,
+      });
+      return;
+    }
+
+    const shadowedBy = positives.find(
+      (other) => other.index !== index && shadows(other, { pattern: text, index, keys: keysOfPattern })
+    );
+    if (shadowedBy) {
+      issues.push({
+        index,
+        code: 'exclude-pattern-shadowed',
+        message: `Exclude pattern "${text}" is redundant: "${shadowedBy.pattern}" already excludes every setting it matches.`,
+      });
+    }
+  });
+
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Check if one exclude pattern makes another one redundant
+ *
+ * A pattern is shadowed when another pattern matches all its keys and more. For patterns matching
+ * the same keys, a literal key is shadowed by a glob, and otherwise the later entry by the earlier one.
+ */
+function shadows(
+  other: { pattern: string; index: number; keys: Set<string> },
+  entry: { pattern: string; index: number; keys: Set<string> }
+): boolean {
+  if (![...entry.keys].every((key) => other.keys.has(key))) {
+    return false;
+  }
+  if (other.keys.size > entry.keys.size) {
+    return true;
+  }
+  if (isGlob(entry.pattern) !== isGlob(other.pattern)) {
+    return isGlob(other.pattern);
+  }
+  return other.index < entry.index;
+}
+
+/**
+ * Describe why an entry is not a usable pattern
+ *
+ * @returns The error message, or undefined for valid patterns
+ */
+function getPatternError(pattern: unknown): string | undefined {
+  if (typeof pattern !== 'string') {
+    return `Exclude patterns must be strings, got ${JSON.stringify(pattern)}.`;
+  }
+  if (stripNegation(pattern).trim() === '') {
+    return 'Empty exclude pattern.';
+  }
+  try {
+    picomatch.makeRe(escapeLanguageOverridePattern(stripNegation(pattern)), { strictBrackets: true });
+    return undefined;
+  } catch (error) {
+    return `Invalid exclude pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function stripNegation(pattern: string): string {
+  return pattern.startsWith('!') ? pattern.slice(1) : pattern;
+}
+
+function isGlob(pattern: string): boolean {
+  return picomatch.scan(escapeLanguageOverridePattern(pattern)).isGlob;
+}
+
+/**
+ * Find the key closest to a (probably misspelled) literal pattern
+ *
+ * @returns A key differing only in case or by at most two edits, or undefined
+ */
+function findSimilarKey(pattern: string, keys: string[]): string | undefined {
+  const lowerPattern = pattern.toLowerCase();
+  const sameCase = keys.find((key) => key.toLowerCase() === lowerPattern);
+  if (sameCase) {
+    return sameCase;
+  }
+
+  let best: { key: string; distance: number } | undefined;
+  for (const key of keys) {
+    if (Math.abs(key.length - pattern.length) > 2) {
+      continue;
+    }
+    const distance = editDistance(lowerPattern, key.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { key, distance };
+    }
+  }
+  return best?.key;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,52 @@
+/**
+ * Folder override helpers
+ *
+ * Root "workspaceManager.sync.folderOverrides" maps folder globs to settings, e.g.
+ * { "services/*": {...}, "libs/**": {...} }. A block applies to every folder whose
+ * path or name matches the glob (picomatch).
+ */
+
+import picomatch from 'picomatch';
+import { SETTINGS_KEYS, type FolderConfig, type Settings } from '../types';
+
+/**
+ * Normalize a folder path for matching ("./services/api/" → "services/api")
+ */
+function normalizeFolderPath(folderPath: string): string {
+  return folderPath
+    .replace(/\\/g, '/')
+    .replace(/^\.\/+/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Check if a folder override glob matches a folder's path or name
+ */
+export function matchesFolder(pattern: string, folder: FolderConfig): boolean {
+  const candidates = [normalizeFolderPath(folder.path)];
+  if (folder.name) {
+    candidates.push(folder.name);
+  }
+  const glob = normalizeFolderPath(pattern);
+
+  return candidates.some((candidate) => candidate === glob || picomatch.isMatch(candidate, glob));
+}
+
+/**
+ * Get the folder overrides defined in root settings
+ */
+export function getFolderOverrides(globalSettings: Settings): Record<string, Settings> {
+  const overrides = globalSettings[SETTINGS_KEYS.syncFolderOverrides];
+  return typeof overrides === 'object' && overrides !== null && !Array.isArray(overrides)
+    ? (overrides as Record<string, Settings>)
+    : {};
+}
+
+/**
+ * Get the settings of all folder override blocks matching a folder, in definition order
+ */
+export function resolveFolderOverrides(globalSettings: Settings, folder: FolderConfig): Settings[] {
+  return Object.entries(getFolderOverrides(globalSettings))
+    .filter(([pattern]) => matchesFolder(pattern, folder))
+    .map(([, settings]) => settings);
+}
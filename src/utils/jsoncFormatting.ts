@@ -0,0 +1,43 @@
+/**
+ * JSONC formatting helpers
+ *
+ * Shared helpers for applying formatting-preserving edits with jsonc-parser.
+ */
+
+import * as jsonc from 'jsonc-parser';
+
+/**
+ * Detect the indentation style used in a JSONC document
+ */
+export function detectIndentationStyle(text: string): jsonc.FormattingOptions {
+  // Find the first indented line to detect tab vs spaces
+  const lines = text.split('\n');
+  for (const line of lines) {
+    if (line.startsWith('\t')) {
+      return { tabSize: 1, insertSpaces: false };
+    }
+    const match = line.match(/^( +)/);
+    if (match) {
+      // Detect tab size from the indentation
+      const spaces = match[1].length;
+      return { tabSize: spaces, insertSpaces: true };
+    }
+  }
+  // Default to tabs (common for workspace files)
+  return { tabSize: 1, insertSpaces: false };
+}
+
+/**
+ * Apply a single jsonc.modify() edit and return the updated text
+ *
+ * Passing `undefined` as the value removes the property at `path`.
+ */
+export function modifyJsonc(
+  text: string,
+  path: jsonc.JSONPath,
+  value: unknown,
+  formattingOptions: jsonc.FormattingOptions
+): string {
+  const edits = jsonc.modify(text, path, value, { formattingOptions });
+  return jsonc.applyEdits(text, edits);
+}
@@ -0,0 +1,121 @@
+/**
+ * Language-specific override helpers
+ *
+ * Settings keys like "[python]" or "[typescript][javascript]" hold settings that only apply
+ * to the given languages. Entries inside such a block are addressed as "[python].editor.tabSize"
+ * in exclude patterns, diffs and conflicts.
+ */
+
+import type { Settings } from '../types';
+
+const LANGUAGE_OVERRIDE_KEY = /^(\[[^\]]+\])+$/;
+const LANGUAGE_OVERRIDE_ENTRY_KEY = /^((?:\[[^\]]+\])+)\.(.+)$/;
+const LANGUAGE_OVERRIDE_PATTERN_HEADER = /^(\[[^\]]+\])+/;
+
+/**
+ * Check if a settings key is a language override block header (e.g. "[python]" or "[typescript][javascript]")
+ */
+export function isLanguageOverrideKey(key: string): boolean {
+  return LANGUAGE_OVERRIDE_KEY.test(key);
+}
+
+/**
+ * Get the languages of a language override header
+ *
+ * @example getOverrideLanguages("[typescript][javascript]") // ["typescript", "javascript"]
+ */
+export function getOverrideLanguages(key: string): string[] {
+  return [...key.matchAll(/\[([^\]]+)\]/g)].map((match) => match[1]);
+}
+
+/**
+ * Split a flattened language override entry key into its header and setting
+ *
+ * @example splitOverrideEntryKey("[python].editor.tabSize") // { header: "[python]", setting: "editor.tabSize" }
+ * @returns null for keys that don't address an entry inside a language block
+ */
+export function splitOverrideEntryKey(key: string): { header: string; setting: string } | null {
+  const match = LANGUAGE_OVERRIDE_ENTRY_KEY.exec(key);
+  return match ? { header: match[1], setting: match[2] } : null;
+}
+
+/**
+ * Expand a (flattened) key with a multi-language header into one key per language
+ *
+ * @example expandOverrideKey("[typescript][javascript].editor.tabSize") // ["[typescript].editor.tabSize", "[javascript].editor.tabSize"]
+ */
+export function expandOverrideKey(key: string): string[] {
+  const entry = splitOverrideEntryKey(key);
+  if (entry) {
+    return getOverrideLanguages(entry.header).map((language) => `[${language}].${entry.setting}`);
+  }
+  if (isLanguageOverrideKey(key)) {
+    return getOverrideLanguages(key).map((language) => `[${language}]`);
+  }
+  return [key];
+}
+
+/**
+ * Get the JSON path of a (flattened) settings key inside a settings object
+ *
+ * @example toSettingsPath("[python].editor.tabSize") // ["[python]", "editor.tabSize"]
+ */
+export function toSettingsPath(key: string): string[] {
+  const entry = splitOverrideEntryKey(key);
+  return entry ? [entry.header, entry.setting] : [key];
+}
+
+/**
+ * Flatten language override blocks into one "[language].setting" key per entry
+ *
+ * Headers are kept as written; empty blocks are kept as they are.
+ */
+export function flattenLanguageOverrides(settings: Settings): Settings {
+  const result: Settings = {};
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (isLanguageOverrideKey(key) && isPlainObject(value) && Object.keys(value).length > 0) {
+      for (const [setting, entryValue] of Object.entries(value)) {
+        result[`${key}.${setting}`] = entryValue;
+      }
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reverse of flattenLanguageOverrides: collect "[language].setting" keys back into blocks
+ */
+export function unflattenLanguageOverrides(settings: Settings): Settings {
+  const result: Settings = {};
+
+  for (const [key, value] of Object.entries(settings)) {
+    const entry = splitOverrideEntryKey(key);
+    if (entry) {
+      const block = isPlainObject(result[entry.header]) ? (result[entry.header] as Settings) : {};
+      block[entry.setting] = value;
+      result[entry.header] = block;
+    } else if (isLanguageOverrideKey(key) && isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = { ...(result[key] as Settings), ...value };
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Escape the language override header of an exclude pattern so picomatch doesn't
+ * read it as a character class ("[python].editor*" → "\[python\].editor*")
+ */
+export function escapeLanguageOverridePattern(pattern: string): string {
+  return pattern.replace(LANGUAGE_OVERRIDE_PATTERN_HEADER, (header) => header.replace(/[[\]]/g, '\\$&'));
+}
+
+function isPlainObject(value: unknown): value is Settings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,91 @@
+/**
+ * Unified line diff
+ *
+ * Used by the CLI to show what forward sync would change. Settings files are small,
+ * so a plain LCS table is good enough.
+ */
+
+const CONTEXT_LINES = 3;
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Compute the line-by-line edit script between two texts
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // lcs[i][j] = length of the longest common subsequence of oldLines[i..] and newLines[j..]
+  const lcs = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      result.push({ type: ' ', text: oldLines[i++] });
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: '-', text: oldLines[i++] });
+    } else {
+      result.push({ type: '+', text: newLines[j++] });
+    }
+  }
+  return result;
+}
+
+/**
+ * Create a unified diff (like `diff -u`) between two texts
+ *
+ * @param oldText - Original content (null for a file that doesn't exist yet)
+ * @param newText - New content
+ * @param oldLabel - Label of the original file ("--- " line)
+ * @param newLabel - Label of the new file ("+++ " line)
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function createUnifiedDiff(oldText: string | null, newText: string, oldLabel: string, newLabel: string): string {
+  const oldLines = oldText === null || oldText === '' ? [] : oldText.replace(/\n$/, '').split('\n');
+  const newLines = newText === '' ? [] : newText.replace(/\n$/, '').split('\n');
+  const lines = diffLines(oldLines, newLines);
+  if (lines.every((line) => line.type === ' ')) {
+    return '';
+  }
+
+  const output = [`--- ${oldText === null ? '/dev/null' : oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and the end of its hunk (changes closer than 2 * context are joined)
+    const firstChange = lines.findIndex((line, k) => k >= index && line.type !== ' ');
+    if (firstChange === -1) {
+      break;
+    }
+    let end = firstChange;
+    for (let k = firstChange; k < lines.length && k <= end + 2 * CONTEXT_LINES; k++) {
+      if (lines[k].type !== ' ') {
+        end = k;
+      }
+    }
+
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    const stop = Math.min(lines.length, end + CONTEXT_LINES + 1);
+    const hunk = lines.slice(start, stop);
+
+    // Line numbers at the start of the hunk
+    const before = lines.slice(0, start);
+    const oldStart = before.filter((line) => line.type !== '+').length + 1;
+    const newStart = before.filter((line) => line.type !== '-').length + 1;
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`
+    );
+    output.push(...hunk.map((line) => line.type + line.text));
+    index = stop;
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -7,9 +7,26 @@
  * Examples:
  *   - "editor*" excludes all settings starting with "editor"
  *   - "!editor.fontSize" explicitly includes editor.fontSize even if another pattern would exclude it
+ *   - "[python]" excludes the whole [python] language block
+ *   - "[python].editor.formatOnSave" excludes a single entry inside the [python] block
+ *   - "files.exclude.**\/dist" excludes only the "**\/dist" entry of the files.exclude object
  */
 
 import picomatch from 'picomatch';
+import { escapeLanguageOverridePattern, splitOverrideEntryKey } from './languageOverrides';
+
+/**
+ * Check if a single pattern (without the ! prefix) matches a settings key or nested path
+ *
+ * Entries of a language block also match patterns for the whole block (see PatternMatcher.isExcluded).
+ */
+export function matchesPattern(pattern: string, key: string): boolean {
+  const entry = splitOverrideEntryKey(key);
+  const candidates = entry ? [key, entry.header] : [key];
+  return candidates.some(
+    (candidate) => candidate === pattern || picomatch.isMatch(candidate, escapeLanguageOverridePattern(pattern))
+  );
+}
 
 export class PatternMatcher {
   private includePatterns: string[];
@@ -23,22 +40,48 @@ export class PatternMatcher {
   /**
    * Check if a settings key should be excluded based on patterns
    *
-   * @param key - The settings key to check (e.g., "editor.fontSize")
+   * Entries of a language block (e.g. "[python].editor.tabSize") also match patterns for the whole block ("[python]").
+   * Nested entries are checked as "setting.subKey" paths; a pattern equal to the path always matches, so
+   * sub-keys containing glob characters (e.g. "files.exclude.**\/*.{js,map}") can be targeted literally.
+   *
+   * A negation keeps the whole value of the key it matches: entries below a negated parent are only excluded by
+   * patterns targeting them below that parent (e.g. "files.exclude.**\/dist" with "!files.exclude"), not by patterns
+   * that also match the parent itself (e.g. "files.*").
+   *
+   * @param key - The settings key or nested path to check (e.g., "editor.fontSize")
+   * @param parents - Paths of the objects containing a nested entry, outermost first (e.g., ["files.exclude"])
    * @returns true if the key should be excluded, false otherwise
    */
-  isExcluded(key: string): boolean {
+  isExcluded(key: string, parents: string[] = []): boolean {
+    return this.findExcludingPattern(key, parents) !== undefined;
+  }
+
+  /**
+   * Find the pattern that excludes a settings key (see isExcluded)
+   *
+   * @returns The first matching exclusion pattern, or undefined if the key is not excluded
+   */
+  findExcludingPattern(key: string, parents: string[] = []): string | undefined {
+    const isNegated = (path: string) => this.negationPatterns.some((pattern) => matchesPattern(pattern, path));
+
     // If explicitly included via negation pattern, not excluded
-    if (this.negationPatterns.some((p) => picomatch.isMatch(key, p))) {
-      return false;
+    if (isNegated(key)) {
+      return undefined;
     }
 
-    // If matches any include (exclusion) pattern, it's excluded
-    return this.includePatterns.some((p) => picomatch.isMatch(key, p));
+    // First include (exclusion) pattern that matches and does not also match a negated parent
+    const negatedParents = parents.filter(isNegated);
+    return this.includePatterns.find(
+      (pattern) => matchesPattern(pattern, key) && !negatedParents.some((parent) => matchesPattern(pattern, parent))
+    );
   }
 
   /**
    * Filter a settings object, removing excluded keys
    *
+   * Object values are filtered entry by entry, so sub-key patterns drop single nested entries.
+   * Objects left empty by filtering are removed.
+   *
    * @param settings - The settings object to filter
    * @returns New settings object with excluded keys removed
    */
@@ -46,11 +89,43 @@ export class PatternMatcher {
     const result: Partial<T> = {};
 
     for (const [key, value] of Object.entries(settings)) {
-      if (!this.isExcluded(key)) {
-        result[key as keyof T] = value as T[keyof T];
+      if (this.isExcluded(key)) {
+        continue;
+      }
+
+      const filtered = this.filterNested(key, value, []);
+      if (filtered !== undefined) {
+        result[key as keyof T] = filtered as T[keyof T];
       }
     }
 
     return result;
   }
+
+  /**
+   * Filter the entries of an object value (recursively)
+   *
+   * @returns The filtered value, or undefined if all entries of a non-empty object were excluded
+   */
+  private filterNested(path: string, value: unknown, parents: string[]): unknown {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || Object.keys(value).length === 0) {
+      return value;
+    }
+
+    const subParents = [...parents, path];
+    const result: Record<string, unknown> = {};
+    for (const [subKey, subValue] of Object.entries(value)) {
+      const subPath = `${path}.${subKey}`;
+      if (this.isExcluded(subPath, subParents)) {
+        continue;
+      }
+
+      const filtered = this.filterNested(subPath, subValue, subParents);
+      if (filtered !== undefined) {
+        result[subKey] = filtered;
+      }
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
 }
@@ -0,0 +1,38 @@
+/**
+ * Settings profile helpers
+ *
+ * Profiles are named blocks of settings defined in root "workspaceManager.sync.profiles".
+ * Folders opt into them with "workspaceManager.profiles": ["python", "docker"].
+ */
+
+import { SETTINGS_KEYS, type Settings } from '../types';
+
+/**
+ * Get the profile names a folder opts into (in order)
+ */
+export function getFolderProfileNames(folderSettings: Settings | undefined): string[] {
+  const names = folderSettings?.[SETTINGS_KEYS.folderProfiles];
+  return Array.isArray(names) ? names.filter((name): name is string => typeof name === 'string') : [];
+}
+
+/**
+ * Get the profiles defined in root settings
+ */
+export function getProfiles(globalSettings: Settings): Record<string, Settings> {
+  const profiles = globalSettings[SETTINGS_KEYS.syncProfiles];
+  return typeof profiles === 'object' && profiles !== null && !Array.isArray(profiles)
+    ? (profiles as Record<string, Settings>)
+    : {};
+}
+
+/**
+ * Get the settings of the profiles a folder opts into, in the order listed by the folder
+ *
+ * Unknown profile names are skipped (reported by diagnostics).
+ */
+export function resolveFolderProfiles(globalSettings: Settings, folderSettings: Settings | undefined): Settings[] {
+  const profiles = getProfiles(globalSettings);
+  return getFolderProfileNames(folderSettings)
+    .filter((name) => Object.hasOwn(profiles, name))
+    .map((name) => profiles[name]);
+}
@@ -0,0 +1,47 @@
+/**
+ * Setting scope helpers
+ *
+ * VS Code ignores settings registered with "application", "machine" or "window" scope in a
+ * folder's .vscode/settings.json, so syncing them into folders has no effect.
+ */
+
+import { flattenLanguageOverrides, splitOverrideEntryKey, unflattenLanguageOverrides } from './languageOverrides';
+import type { SettingScope, SettingScopeLookup, Settings } from '../types';
+
+const FOLDER_IGNORED_SCOPES: readonly SettingScope[] = ['application', 'machine', 'window'];
+
+/**
+ * Get the scope that keeps a setting from working in folder settings
+ *
+ * Entries of language blocks ("[python].editor.tabSize") are looked up by their setting.
+ *
+ * @returns The scope, or undefined if the setting works at folder level (or its scope is unknown)
+ */
+export function getFolderIgnoredScope(key: string, getScope: SettingScopeLookup): SettingScope | undefined {
+  const scope = getScope(splitOverrideEntryKey(key)?.setting ?? key);
+  return scope && FOLDER_IGNORED_SCOPES.includes(scope) ? scope : undefined;
+}
+
+/**
+ * Remove the settings that have no effect in folder settings
+ *
+ * @returns The remaining settings, and the removed keys ("[language].setting" for entries of language blocks) with their scope
+ */
+export function removeFolderIgnoredSettings(
+  settings: Settings,
+  getScope: SettingScopeLookup
+): { settings: Settings; removed: Array<{ key: string; scope: SettingScope }> } {
+  const result: Settings = {};
+  const removed: Array<{ key: string; scope: SettingScope }> = [];
+
+  for (const [key, value] of Object.entries(flattenLanguageOverrides(settings))) {
+    const scope = getFolderIgnoredScope(key, getScope);
+    if (scope) {
+      removed.push({ key, scope });
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return { settings: removed.length > 0 ? unflattenLanguageOverrides(result) : settings, removed };
+}
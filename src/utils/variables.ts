@@ -0,0 +1,126 @@
+/**
+ * Variable substitution in synced setting values
+ *
+ * String values may contain ${workspaceManager:folderPath}, ${workspaceManager:folderName},
+ * ${workspaceManager:workspaceDir} and ${env:NAME}. They are resolved when writing a folder's
+ * .vscode/settings.json. Other variables (e.g. VS Code's own ${workspaceFolder}) are left as they are.
+ */
+
+import * as path from 'path';
+import type { FolderConfig } from '../types';
+
+const VARIABLE_PATTERN = /\$\{((?:workspaceManager|env):[^}]+)\}/g;
+
+/**
+ * Values of the workspaceManager:* variables for one folder, keyed by variable name
+ */
+export type VariableValues = Record<string, string>;
+
+/**
+ * Variables that hold absolute paths - mapped back where they end at a path separator, wherever they start
+ */
+const PATH_VARIABLES = ['workspaceManager:folderPath', 'workspaceManager:workspaceDir'];
+
+/**
+ * Get the workspaceManager:* variable values for a folder
+ *
+ * @param folder - The folder the settings are written for
+ * @param workspaceDir - Directory containing the .code-workspace file
+ */
+export function getFolderVariables(folder: FolderConfig, workspaceDir: string): VariableValues {
+  const folderPath = path.resolve(workspaceDir, folder.path);
+  return {
+    'workspaceManager:folderPath': folderPath,
+    'workspaceManager:folderName': folder.name ?? path.basename(folderPath),
+    'workspaceManager:workspaceDir': workspaceDir,
+  };
+}
+
+/**
+ * Look up a variable (workspaceManager:* from the given values, env:* from the process environment)
+ *
+ * @returns The value, or undefined for unknown variables (missing environment variables resolve to "")
+ */
+function lookupVariable(name: string, variables: VariableValues): string | undefined {
+  if (name.startsWith('env:')) {
+    return process.env[name.slice('env:'.length)] ?? '';
+  }
+  return variables[name];
+}
+
+/**
+ * Resolve variables in all string values (recursively, including object keys' values and array items)
+ */
+export function resolveVariables<T>(value: T, variables: VariableValues): T {
+  if (typeof value === 'string') {
+    return value.replace(VARIABLE_PATTERN, (match, name: string) => lookupVariable(name, variables) ?? match) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveVariables(item, variables)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, resolveVariables(entry, variables)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Collect the variable names referenced in a value (recursively)
+ */
+function collectVariableNames(value: unknown, names: Set<string>): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    for (const entry of Object.values(value)) {
+      collectVariableNames(entry, names);
+    }
+  }
+  return names;
+}
+
+/**
+ * Map resolved values back to their templated form
+ *
+ * Only variables the template (the workspace value the folder value came from) uses are mapped back,
+ * so literal values typed in the Settings UI stay literal. ${env:NAME} values are never mapped back: they
+ * depend on the machine, so a matching value is more likely a coincidence than the variable. Path variables
+ * are only replaced where a path segment ends ("/ws/api/x" → "${workspaceManager:folderPath}/x", but not in
+ * "/ws/api2"); other variables only as the whole value or a whole path segment ("api" and "x/api", but not
+ * "apiUrl").
+ *
+ * @param value - Value read from the folder's .vscode/settings.json
+ * @param template - The unresolved workspace value for the same key (if any)
+ * @param variables - Variable values for the folder
+ */
+export function unresolveVariables<T>(value: T, template: unknown, variables: VariableValues): T {
+  const names = collectVariableNames(template, new Set<string>());
+  const replacements = [...names]
+    .map((name) => ({ name, resolved: variables[name] }))
+    .filter((entry): entry is { name: string; resolved: string } => !!entry.resolved)
+    .sort((a, b) => b.resolved.length - a.resolved.length); // Longest first (folderPath before workspaceDir)
+
+  const unresolve = (current: unknown): unknown => {
+    if (typeof current === 'string') {
+      let result = current;
+      for (const { name, resolved } of replacements) {
+        const escaped = resolved.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const start = PATH_VARIABLES.includes(name) ? '' : '(?<![^/\\\\])';
+        result = result.replace(new RegExp(start + escaped + '(?![^/\\\\])', 'g'), () => `\${${name}}`);
+      }
+      return result;
+    }
+    if (Array.isArray(current)) {
+      return current.map(unresolve);
+    }
+    if (typeof current === 'object' && current !== null) {
+      return Object.fromEntries(Object.entries(current).map(([key, entry]) => [key, unresolve(entry)]));
+    }
+    return current;
+  };
+
+  return unresolve(value) as T;
+}
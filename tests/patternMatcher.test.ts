@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PatternMatcher } from '../src/utils/patternMatcher';
+
+describe('PatternMatcher', () => {
+  describe('filterSettings', () => {
+    it.each([
+      {
+        name: 'negation keeps the entries of an object setting',
+        patterns: ['editor.*', '!editor.codeActionsOnSave'],
+        settings: {
+          'editor.fontSize': 14,
+          'editor.codeActionsOnSave': { 'source.fixAll': 'explicit', 'source.organizeImports': 'never' },
+        },
+        expected: {
+          'editor.codeActionsOnSave': { 'source.fixAll': 'explicit', 'source.organizeImports': 'never' },
+        },
+      },
+      {
+        name: 'negation keeps sub-keys matched by a parent pattern',
+        patterns: ['files.*', '!files.exclude'],
+        settings: {
+          'files.autoSave': 'afterDelay',
+          'files.exclude': { '**/dist': true, '*.log': true, out: true },
+        },
+        expected: { 'files.exclude': { '**/dist': true, '*.log': true, out: true } },
+      },
+      {
+        name: 'sub-key patterns still drop entries of a negated setting',
+        patterns: ['files.*', '!files.exclude', 'files.exclude.**/dist'],
+        settings: { 'files.exclude': { '**/dist': true, '**/node_modules': true } },
+        expected: { 'files.exclude': { '**/node_modules': true } },
+      },
+      {
+        name: 'sub-key patterns drop single entries',
+        patterns: ['files.exclude.**/dist'],
+        settings: { 'files.exclude': { '**/dist': true, '**/node_modules': true } },
+        expected: { 'files.exclude': { '**/node_modules': true } },
+      },
+    ])('$name', ({ patterns, settings, expected }) => {
+      expect(new PatternMatcher(patterns).filterSettings(settings)).toEqual(expected);
+    });
+  });
+
+  describe('isExcluded', () => {
+    it.each([
+      { patterns: ['editor.*', '!editor.codeActionsOnSave'], key: 'editor.fontSize', parents: [], expected: true },
+      {
+        patterns: ['editor.*', '!editor.codeActionsOnSave'],
+        key: 'editor.codeActionsOnSave.source.fixAll',
+        parents: ['editor.codeActionsOnSave'],
+        expected: false,
+      },
+      {
+        patterns: ['files.*', '!files.exclude'],
+        key: 'files.exclude.out',
+        parents: ['files.exclude'],
+        expected: false,
+      },
+    ])('$key with $patterns -> $expected', ({ patterns, key, parents, expected }) => {
+      expect(new PatternMatcher(patterns).isExcluded(key, parents)).toBe(expected);
+    });
+  });
+});